@@ -1,11 +1,135 @@
 "use client";
 
-import { useState, useRef, useEffect } from "react";
-import { Card, CardHeader, CardBody, CardFooter, Divider, Link, Image, Button, Checkbox, Chip } from "@heroui/react";
+import { useState, useRef, useEffect, useMemo } from "react";
+import {
+  Card,
+  CardHeader,
+  CardBody,
+  CardFooter,
+  Divider,
+  Link,
+  Image,
+  Button,
+  Checkbox,
+  CheckboxGroup,
+  Chip,
+  Input,
+  Modal,
+  ModalBody,
+  ModalContent,
+  ModalFooter,
+  ModalHeader,
+  Pagination,
+  Radio,
+  RadioGroup,
+  Select,
+  SelectItem,
+} from "@heroui/react";
 import { FileUpload } from "@/components/application/file-upload/file-upload-base";
-import * as XLSX from 'xlsx';
-import Papa from 'papaparse';
+import { ProgressBar } from "@/components/base/progress-indicators/progress-indicators";
+import { downloadBlob } from "@/utils/download";
+import {
+  BatchFileResult,
+  FileMode,
+  SessionFileMeta,
+  deleteSessionFile,
+  deleteTemplate,
+  discardSession,
+  exportTemplateLibrary,
+  importTemplates,
+  listTemplates,
+  loadSession,
+  parseTemplateLibrary,
+  saveSessionBatch,
+  saveSessionFile,
+  saveSessionResult,
+  saveSessionState,
+  saveTemplate,
+  SavedTemplate,
+} from "@/lib/storage";
 import { motion, AnimatePresence } from 'framer-motion';
+import {
+  AmbiguousDateHandling,
+  CHARACTER_CATEGORY_LABELS,
+  CLEANING_STEP_LABELS,
+  COLUMN_STEPS,
+  CharacterCategory,
+  CleaningOptions,
+  CleaningProgress,
+  CleaningRecipe,
+  CleaningResult,
+  CleaningStepId,
+  COLUMN_TYPE_LABELS,
+  ColumnRule,
+  ColumnSchema,
+  DATE_CALENDAR_LABELS,
+  DATE_FORMATS,
+  DATE_INPUT_FORMAT_LABELS,
+  DateCalendar,
+  DateInputFormat,
+  DIGIT_SCRIPT_LABELS,
+  DigitScript,
+  DEFAULT_CLEANING_OPTIONS,
+  DEFAULT_CLEANING_STEPS,
+  DEFAULT_FUZZY_THRESHOLD,
+  DownloadFormat,
+  DUPLICATE_STRATEGY_LABELS,
+  DuplicateStrategy,
+  FUZZY_METHOD_LABELS,
+  FuzzyMethod,
+  HeaderMatch,
+  MAX_WORKBOOK_BYTES,
+  NormalizationForm,
+  ROW_STEPS,
+  SOURCE_FILE_HEADER,
+  STAGE_LABELS,
+  STREAM_SAMPLE_ROWS,
+  StreamedCleaningResult,
+  Table,
+  TemplateSchema,
+  VALUE_CLUSTER_METHOD_LABELS,
+  ValueClusterMethod,
+  ValueCount,
+  WorkerTaskOptions,
+  applyFuzzyClusters,
+  cleanDataInWorker,
+  cleanFileInWorker,
+  cleanMergedDataInWorker,
+  countValuesInWorker,
+  createRecipe,
+  decodeRecipe,
+  detectFileTypes,
+  enableSteps,
+  encodeRecipe,
+  findSourceColumn,
+  findValueClusters,
+  getCleaningPercent,
+  getDownloadFilename,
+  getOutputFilenames,
+  isAbortError,
+  isStepEnabled,
+  isStepEnabledForColumn,
+  isStepUsed,
+  isSupportedFile,
+  mapValue,
+  matchColumns,
+  mergeValues,
+  moveStep,
+  parseFileInWorker,
+  parseRecipe,
+  parseSchemaJson,
+  previewCleaning,
+  profileTable,
+  proposeHeaderMatches,
+  readTemplateSchema,
+  scanFileInWorker,
+  serializeRecipe,
+  shouldStreamFile,
+  tableToBlob,
+  tableToCsv,
+  withDefaultSteps,
+  zipFilesInWorker,
+} from "@/lib/cleaner";
 
 const ChevronDownIcon = ({ className }: { className?: string }) => (
   <svg
@@ -26,84 +150,335 @@ const ChevronDownIcon = ({ className }: { className?: string }) => (
   </svg>
 );
 
+// Violations listed in Step 3; the rest are in the download
+const VIOLATIONS_SHOWN = 20;
+
+// Rows per page of the Step 2 before/after preview
+const PREVIEW_PAGE_SIZE = 10;
+
+// Distinct values listed in a column's rules; clusters still cover them all
+const FACET_VALUES_SHOWN = 100;
+
 interface UploadedFile {
   file: File;
   name: string;
   size: number;
   rowCount?: number;
-  columns?: string[];
   id: string;
-  data?: any[][];
+  table?: Table;
   headers?: string[];
   isDataFile?: boolean;
   isTemplateFile?: boolean;
+  // Picked from the template library or brought in by a recipe, rather than uploaded
+  isLibraryTemplate?: boolean;
+  progress?: number;
+  failed?: boolean;
+  // Large CSVs are only scanned on upload: `table` then holds the first rows
+  // and cleaning streams the whole `file`
+  streamed?: boolean;
 }
 
-interface CleaningResult {
-  totalRowsCleaned: number;
-  columnsDeleted: number;
-  duplicateRowsRemoved: number;
-  cleanedData: any[][];
-}
+// Library templates are listed with the library rather than with the uploads
+const isUpload = (file: UploadedFile) => !file.isLibraryTemplate;
 
 export default function Home() {
   const [currentStep, setCurrentStep] = useState<number>(1);
   const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([]);
-  const [cleaningResult, setCleaningResult] = useState<CleaningResult | null>(null);
+  const [cleaningResult, setCleaningResult] = useState<
+    CleaningResult | StreamedCleaningResult | null
+  >(null);
   const [isProcessing, setIsProcessing] = useState<boolean>(false);
+  const [cleaningProgress, setCleaningProgress] =
+    useState<CleaningProgress | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [autoAdvanceCountdown, setAutoAdvanceCountdown] = useState<number | null>(null);
-  const [cleaningOptions, setCleaningOptions] = useState({
-    removeDuplicates: false,
-    removeEmptyRows: false,
-    removeEmptyColumns: false,
-    trimWhitespace: false,
-    normalizeText: false,
-    removeSpecialCharacters: false,
-    standardizeDates: false,
-    convertToUppercase: false,
-    convertToLowercase: false,
-    removeLeadingZeros: false
-  });
+  const [cleaningOptions, setCleaningOptions] = useState<CleaningOptions>(
+    DEFAULT_CLEANING_OPTIONS,
+  );
+  const [ruleColumn, setRuleColumn] = useState<string | null>(null);
+  const [isProfileOpen, setIsProfileOpen] = useState(false);
+  const [previewPage, setPreviewPage] = useState(1);
+  const [valueClusterMethod, setValueClusterMethod] =
+    useState<ValueClusterMethod>("fingerprint");
+  const [ruleColumnValues, setRuleColumnValues] = useState<ValueCount[]>([]);
+  const [selectedValues, setSelectedValues] = useState<string[]>([]);
+  const [mergeTarget, setMergeTarget] = useState("");
+  // Canonical values typed for clusters, by the cluster's most common value
+  const [clusterTargets, setClusterTargets] = useState<Record<string, string>>(
+    {},
+  );
+  const [rejectedMatches, setRejectedMatches] = useState<HeaderMatch[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const schemaInputRef = useRef<HTMLInputElement>(null);
+  const libraryInputRef = useRef<HTMLInputElement>(null);
+  const [libraryTemplates, setLibraryTemplates] = useState<SavedTemplate[]>([]);
+  const [libraryName, setLibraryName] = useState("");
+  const [savedTemplateName, setSavedTemplateName] = useState<string | null>(
+    null,
+  );
+  const recipeInputRef = useRef<HTMLInputElement>(null);
+  const [isRecipeLinkCopied, setIsRecipeLinkCopied] = useState(false);
+  const [fileMode, setFileMode] = useState<FileMode>("single");
+  const [batchResults, setBatchResults] = useState<BatchFileResult[]>([]);
+  // A result with likely duplicates, held in Step 2 until they are reviewed
+  const [pendingResult, setPendingResult] = useState<CleaningResult | null>(
+    null,
+  );
+  const [rejectedClusters, setRejectedClusters] = useState<number[]>([]);
+  // Which file of the batch is being cleaned, from 1
+  const [batchProgress, setBatchProgress] = useState<{
+    file: number;
+    total: number;
+  } | null>(null);
+  const parseControllersRef = useRef(new Map<string, AbortController>());
+  const cleaningControllerRef = useRef<AbortController | null>(null);
+  const [restoredAt, setRestoredAt] = useState<number | null>(null);
+  const isSessionLoadedRef = useRef(false);
+  const persistedFileIdsRef = useRef(new Set<string>());
+
+  // Stop any running workers when the page unmounts
+  useEffect(() => {
+    const parseControllers = parseControllersRef.current;
+
+    return () => {
+      parseControllers.forEach((controller) => controller.abort());
+      cleaningControllerRef.current?.abort();
+    };
+  }, []);
+
+  const reportStorageError = (action: string) => (error: unknown) => {
+    setError(
+      `Failed to ${action}: ${error instanceof Error ? error.message : "Unknown error"}`,
+    );
+  };
+
+  const refreshLibrary = () => {
+    listTemplates()
+      .then(setLibraryTemplates)
+      .catch(reportStorageError("load the template library"));
+  };
+
+  useEffect(() => {
+    refreshLibrary();
+  }, []);
+
+  // A copied link goes stale as soon as the options change
+  useEffect(() => {
+    setIsRecipeLinkCopied(false);
+  }, [cleaningOptions]);
 
-  // Load files from localStorage on component mount
+  // So does a review of likely duplicates found with the old options
   useEffect(() => {
-    const savedFiles = localStorage.getItem('uploadedFiles');
-    if (savedFiles) {
-      try {
-        const parsedFiles = JSON.parse(savedFiles);
-        // Validate that the saved files have the required structure
-        const validFiles = parsedFiles.filter((file: any) => 
-          file && file.name && file.size && typeof file.rowCount === 'number'
+    setPendingResult(null);
+  }, [cleaningOptions, uploadedFiles]);
+
+  useEffect(() => {
+    setSelectedValues([]);
+    setMergeTarget("");
+    setClusterTargets({});
+  }, [ruleColumn]);
+
+  // Distinct raw values feeding the column whose rules are open, across the data files, counted in a worker
+  useEffect(() => {
+    setRuleColumnValues([]);
+
+    if (!ruleColumn) return;
+
+    const controller = new AbortController();
+    const cells = uploadedFiles
+      .filter((file) => file.isDataFile && file.table)
+      .flatMap((file) => {
+        const index = findSourceColumn(
+          file.table!.headers,
+          ruleColumn,
+          cleaningOptions.columnMapping,
         );
-        setUploadedFiles(validFiles);
-      } catch (error) {
-        console.error('Error loading saved files:', error);
-        localStorage.removeItem('uploadedFiles'); // Clear corrupted data
-      }
-    }
+
+        return index === -1
+          ? []
+          : file.table!.rows.map((row) => row[index] ?? null);
+      });
+
+    countValuesInWorker(cells, { signal: controller.signal })
+      .then(setRuleColumnValues)
+      .catch((error) => {
+        if (isAbortError(error)) return;
+        setError(
+          `Failed to count values: ${error instanceof Error ? error.message : "Unknown error"}`,
+        );
+      });
+
+    return () => controller.abort();
+  }, [ruleColumn, uploadedFiles, cleaningOptions.columnMapping]);
+
+  // Profiles of the first rows of the previewed data file's columns, only worked out while shown
+  const profiledTable = uploadedFiles.find((file) => file.isDataFile)?.table;
+  const columnProfiles = useMemo(
+    () => (isProfileOpen && profiledTable ? profileTable(profiledTable) : []),
+    [isProfileOpen, profiledTable],
+  );
+
+  // Streamed files are cleaned a chunk at a time, so only the first of each set of duplicates can be kept
+  const hasStreamedFile = uploadedFiles.some(
+    (file) => file.isDataFile && file.streamed,
+  );
+
+  // A sample of the previewed data file, cleaned again whenever the options change
+  const previewTemplate = uploadedFiles.find(
+    (file) => file.isTemplateFile,
+  )?.table;
+  const cleaningPreview = useMemo(
+    () =>
+      currentStep === 2 && profiledTable && previewTemplate
+        ? previewCleaning(profiledTable, previewTemplate, cleaningOptions)
+        : null,
+    [currentStep, profiledTable, previewTemplate, cleaningOptions],
+  );
+
+  // Restore the previous session from IndexedDB on component mount
+  useEffect(() => {
+    // Older versions kept file metadata (without contents) in localStorage
+    localStorage.removeItem("uploadedFiles");
+
+    loadSession()
+      .then((session) => {
+        if (!session) return;
+
+        const { state, contents, cleaningResult, batchResults } = session;
+        const restoredFiles = state.files.flatMap((meta) => {
+          const stored = contents.get(meta.id);
+
+          if (!stored) return [];
+
+          persistedFileIdsRef.current.add(meta.id);
+
+          return [
+            { ...meta, file: stored.file, table: stored.table, progress: 100 },
+          ];
+        });
+
+        if (restoredFiles.length === 0) return;
+
+        setUploadedFiles((prev) => [...restoredFiles, ...prev]);
+        // Options added since the session was saved fall back to their defaults
+        setCleaningOptions({
+          ...DEFAULT_CLEANING_OPTIONS,
+          ...state.cleaningOptions,
+          steps: withDefaultSteps(state.cleaningOptions.steps),
+        });
+        setFileMode(state.fileMode);
+        setCleaningResult(cleaningResult);
+        setBatchResults(batchResults);
+        // Step 3 needs a cleaning result to show
+        const hasResult = cleaningResult !== null || batchResults.length > 0;
+
+        setCurrentStep(
+          hasResult ? state.currentStep : Math.min(state.currentStep, 2),
+        );
+        setRestoredAt(state.savedAt);
+      })
+      .catch(reportStorageError("restore the session"))
+      .finally(() => {
+        isSessionLoadedRef.current = true;
+
+        // A shared recipe link takes precedence over the restored options
+        const recipe = new URLSearchParams(window.location.hash.slice(1)).get(
+          "recipe",
+        );
+
+        if (!recipe) return;
+
+        window.history.replaceState(
+          null,
+          "",
+          window.location.pathname + window.location.search,
+        );
+        try {
+          applyRecipe(decodeRecipe(recipe));
+        } catch (error) {
+          setError(
+            `Failed to open the recipe link: ${error instanceof Error ? error.message : "Unknown error"}`,
+          );
+        }
+      });
   }, []);
 
-  // Save files to localStorage whenever uploadedFiles changes
-  // Note: We don't save the actual file data to avoid localStorage size limits
+  // Save parsed file contents once, and delete them when files are removed
   useEffect(() => {
-    if (uploadedFiles.length > 0) {
-      const filesToSave = uploadedFiles.map(file => ({
-        name: file.name,
-        size: file.size,
-        rowCount: file.rowCount,
-        columns: file.columns,
-        headers: file.headers,
-        id: file.id,
-        // We don't save the actual File object or data array
-      }));
-      localStorage.setItem('uploadedFiles', JSON.stringify(filesToSave));
-    } else {
-      localStorage.removeItem('uploadedFiles');
-    }
+    if (!isSessionLoadedRef.current) return;
+
+    const persistedIds = persistedFileIdsRef.current;
+    const currentIds = new Set(uploadedFiles.map((file) => file.id));
+
+    uploadedFiles.forEach((file) => {
+      if (file.table && !persistedIds.has(file.id)) {
+        persistedIds.add(file.id);
+        saveSessionFile(file.id, { file: file.file, table: file.table }).catch(
+          reportStorageError("save a file"),
+        );
+      }
+    });
+
+    persistedIds.forEach((id) => {
+      if (!currentIds.has(id)) {
+        persistedIds.delete(id);
+        deleteSessionFile(id).catch(reportStorageError("delete a saved file"));
+      }
+    });
   }, [uploadedFiles]);
 
+  // Save the wizard state (debounced, since parse progress updates files often)
+  useEffect(() => {
+    if (!isSessionLoadedRef.current) return;
+
+    const timeout = setTimeout(() => {
+      const files: SessionFileMeta[] = uploadedFiles
+        .filter((file) => persistedFileIdsRef.current.has(file.id))
+        .map((file) => ({
+          id: file.id,
+          name: file.name,
+          size: file.size,
+          rowCount: file.rowCount,
+          headers: file.headers,
+          streamed: file.streamed,
+          isDataFile: file.isDataFile,
+          isTemplateFile: file.isTemplateFile,
+          isLibraryTemplate: file.isLibraryTemplate,
+        }));
+
+      const save =
+        files.length > 0
+          ? saveSessionState({
+              currentStep,
+              cleaningOptions,
+              fileMode,
+              files,
+              savedAt: Date.now(),
+            })
+          : discardSession();
+
+      save.catch(reportStorageError("save the session"));
+    }, 300);
+
+    return () => clearTimeout(timeout);
+  }, [uploadedFiles, currentStep, cleaningOptions, fileMode]);
+
+  useEffect(() => {
+    if (!isSessionLoadedRef.current) return;
+
+    saveSessionResult(cleaningResult).catch(
+      reportStorageError("save the cleaning result"),
+    );
+  }, [cleaningResult]);
+
+  useEffect(() => {
+    if (!isSessionLoadedRef.current) return;
+
+    saveSessionBatch(batchResults).catch(
+      reportStorageError("save the batch results"),
+    );
+  }, [batchResults]);
+
   const cardData = [
     {
       title: "Quick Data Cleanup Tool",
@@ -157,131 +532,314 @@ export default function Home() {
     };
   }, [autoAdvanceCountdown]);
 
-  // Detect data and template files
-  const detectFileTypes = (files: UploadedFile[]) => {
-    if (files.length < 2) return files;
-    
-    // Sort by row count (descending) then by file size (descending)
-    const sortedFiles = [...files].sort((a, b) => {
-      if (a.rowCount !== b.rowCount) {
-        return (b.rowCount || 0) - (a.rowCount || 0);
+  const updateFile = (fileId: string, changes: Partial<UploadedFile>) => {
+    setUploadedFiles((prev) =>
+      prev.map((file) => (file.id === fileId ? { ...file, ...changes } : file)),
+    );
+  };
+
+  // Parse a file in a worker, streaming its progress into the file list.
+  // Resolves to the fields to merge into the file, or null if it was cancelled.
+  const parseUploadedFile = async (
+    uploadedFile: UploadedFile,
+  ): Promise<Partial<UploadedFile> | null> => {
+    const controller = new AbortController();
+
+    parseControllersRef.current.set(uploadedFile.id, controller);
+
+    const taskOptions = {
+      signal: controller.signal,
+      // Hold at 99% until the table is back so the item doesn't show as complete early
+      onProgress: ({ percent }: CleaningProgress) =>
+        updateFile(uploadedFile.id, { progress: Math.min(percent, 99) }),
+    };
+
+    try {
+      if (shouldStreamFile(uploadedFile.file)) {
+        const { sample, rowCount } = await scanFileInWorker(
+          uploadedFile.file,
+          taskOptions,
+        );
+
+        return {
+          table: sample,
+          rowCount,
+          headers: sample.headers,
+          streamed: true,
+          progress: 100,
+          failed: false,
+        };
       }
-      return b.size - a.size;
-    });
-    
-    // Mark files
-    const updatedFiles = files.map(file => {
-      const isLargest = file.id === sortedFiles[0].id;
+
+      const table = await parseFileInWorker(uploadedFile.file, taskOptions);
+
       return {
-        ...file,
-        isDataFile: isLargest,
-        isTemplateFile: !isLargest && file.id === sortedFiles[1].id
+        table,
+        rowCount: table.rows.length,
+        headers: table.headers,
+        progress: 100,
+        failed: false,
       };
-    });
-    
-    return updatedFiles;
+    } catch (error) {
+      if (isAbortError(error)) return null;
+
+      setError(
+        `Failed to parse ${uploadedFile.name}: ${error instanceof Error ? error.message : "Unknown error"}`,
+      );
+
+      return { failed: true };
+    } finally {
+      parseControllersRef.current.delete(uploadedFile.id);
+    }
+  };
+
+  const applyParsedFiles = (parsed: Map<string, Partial<UploadedFile>>) => {
+    setUploadedFiles((prev) =>
+      detectFileTypes(
+        prev.map((file) =>
+          parsed.has(file.id) ? { ...file, ...parsed.get(file.id) } : file,
+        ),
+        fileMode !== "single",
+      ),
+    );
   };
 
   const processFiles = async (fileArray: File[]) => {
-    const newFiles: UploadedFile[] = [];
+    const oversizedWorkbooks = fileArray.filter(
+      (file) => file.name.endsWith(".xlsx") && file.size > MAX_WORKBOOK_BYTES,
+    );
 
-    for (const file of fileArray) {
-      if (file.type === 'text/csv' || file.name.endsWith('.csv') || 
-          file.type === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' || 
-          file.name.endsWith('.xlsx')) {
-        
-        const fileId = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-        
-        const uploadedFile: UploadedFile = {
-          file,
-          name: file.name,
-          size: file.size,
-          id: fileId
-        };
+    if (oversizedWorkbooks.length > 0) {
+      setError(
+        `${oversizedWorkbooks.map((file) => file.name).join(", ")} exceeds the ${formatFileSize(MAX_WORKBOOK_BYTES)} Excel limit. Save it as CSV to clean files of any size.`,
+      );
+    }
 
-        // Parse file to get row count, columns, headers, and data
-        try {
-          const { rowCount, columns, data, headers } = await parseFile(file);
-          uploadedFile.rowCount = rowCount;
-          uploadedFile.columns = columns;
-          uploadedFile.data = data;
-          uploadedFile.headers = headers;
-        } catch (error) {
-          console.error('Error parsing file:', error);
-          setError(`Failed to parse ${file.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
-        }
+    const newFiles: UploadedFile[] = fileArray
+      .filter(
+        (file) => isSupportedFile(file) && !oversizedWorkbooks.includes(file),
+      )
+      .map((file) => ({
+        file,
+        name: file.name,
+        size: file.size,
+        id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        progress: 0,
+      }));
 
-        newFiles.push(uploadedFile);
-      }
-    }
+    if (newFiles.length === 0) return;
 
-    const allFiles = [...uploadedFiles, ...newFiles];
-    const detectedFiles = detectFileTypes(allFiles);
-    setUploadedFiles(detectedFiles);
+    setUploadedFiles((prev) => [...prev, ...newFiles]);
+
+    const parsed = new Map<string, Partial<UploadedFile>>();
+
+    await Promise.all(
+      newFiles.map(async (uploadedFile) => {
+        const changes = await parseUploadedFile(uploadedFile);
+
+        if (changes) parsed.set(uploadedFile.id, changes);
+      }),
+    );
+
+    applyParsedFiles(parsed);
     
     // Start countdown if we have 2 or more files
-    if (detectedFiles.length >= 2) {
+    if (uploadedFiles.length + parsed.size >= 2) {
       setAutoAdvanceCountdown(5);
     }
   };
 
-  const parseFile = async (file: File): Promise<{ rowCount: number; columns: string[]; data: any[][]; headers: string[] }> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      
-      reader.onload = (e) => {
-        try {
-          const result = e.target?.result;
-          let data: any[][] = [];
-          let headers: string[] = [];
-          
-          if (file.name.endsWith('.csv')) {
-            // Parse CSV
-            const text = result as string;
-            const parsed = Papa.parse(text, {
-              header: false,
-              skipEmptyLines: true
-            });
-            
-            data = parsed.data as any[][];
-            headers = data[0] || [];
-            const rowCount = Math.max(0, data.length - 1); // Exclude header row
-            
-            resolve({ rowCount, columns: headers, data, headers });
-          } else if (file.name.endsWith('.xlsx')) {
-            // Parse Excel
-            const arrayBuffer = result as ArrayBuffer;
-            const workbook = XLSX.read(arrayBuffer, { type: 'array' });
-            const sheetName = workbook.SheetNames[0];
-            const sheet = workbook.Sheets[sheetName];
-            
-            // Convert to array of arrays
-            data = XLSX.utils.sheet_to_json(sheet, { header: 1, defval: '' }) as any[][];
-            headers = data[0] || [];
-            const rowCount = Math.max(0, data.length - 1); // Exclude header row
-            
-            resolve({ rowCount, columns: headers, data, headers });
-          } else {
-            reject(new Error('Unsupported file format'));
-          }
-        } catch (error) {
-          reject(error);
-        }
-      };
-      
-      reader.onerror = reject;
-      
-      if (file.name.endsWith('.csv')) {
-        reader.readAsText(file);
-      } else {
-        reader.readAsArrayBuffer(file);
-      }
+  // A template file made from a header list rather than uploaded
+  const createTemplateFile = (
+    name: string,
+    headers: string[],
+  ): UploadedFile => {
+    const table: Table = { headers, rows: [] };
+    const file = new File([tableToCsv(table)], `${name}.csv`, {
+      type: "text/csv",
+    });
+
+    return {
+      file,
+      name,
+      size: file.size,
+      rowCount: 0,
+      id: `library-${Date.now()}`,
+      table,
+      headers,
+      isTemplateFile: true,
+      isLibraryTemplate: true,
+      progress: 100,
+    };
+  };
+
+  // Use a saved template in place of an uploaded one, along with its mapping and rules
+  const pickLibraryTemplate = (template: SavedTemplate) => {
+    const libraryFile = createTemplateFile(template.name, template.headers);
+    const files = detectFileTypes(
+      [...uploadedFiles.filter((file) => !file.isLibraryTemplate), libraryFile],
+      fileMode !== "single",
+    );
+
+    setUploadedFiles(files);
+    setCleaningOptions((prev) => ({
+      ...prev,
+      columnMapping: template.columnMapping,
+      columnRules: template.columnRules,
+      schema: template.schema,
+    }));
+    setLibraryName(template.name);
+    if (files.length >= 2) {
+      setAutoAdvanceCountdown(5);
+    }
+  };
+
+  // Apply a recipe's options, bringing in its template unless the current one has the same headers
+  const applyRecipe = (recipe: CleaningRecipe) => {
+    setCleaningOptions(recipe.options);
+    setRejectedMatches([]);
+    setUploadedFiles((prev) => {
+      const templateFile = prev.find((file) => file.isTemplateFile);
+      const hasTemplate =
+        templateFile?.headers?.join("\u0000") ===
+        recipe.templateHeaders.join("\u0000");
+
+      if (recipe.templateHeaders.length === 0 || hasTemplate) return prev;
+
+      return detectFileTypes(
+        [
+          ...prev.filter((file) => !file.isLibraryTemplate),
+          createTemplateFile("Recipe template", recipe.templateHeaders),
+        ],
+        fileMode !== "single",
+      );
     });
   };
 
+  const getCurrentRecipe = () =>
+    createRecipe(
+      cleaningOptions,
+      uploadedFiles.find((file) => file.isTemplateFile)?.headers ?? [],
+    );
+
+  const handleRecipeDownload = () => {
+    const json = serializeRecipe(getCurrentRecipe());
+
+    downloadBlob(
+      new Blob([json], { type: "application/json" }),
+      "cleaning-recipe.json",
+    );
+  };
+
+  const handleRecipeFile = async (
+    event: React.ChangeEvent<HTMLInputElement>,
+  ) => {
+    const file = event.target.files?.[0];
+
+    event.target.value = "";
+    if (!file) return;
+
+    try {
+      applyRecipe(parseRecipe(await file.text()));
+      setError(null);
+    } catch (error) {
+      setError(
+        `Failed to load ${file.name}: ${error instanceof Error ? error.message : "Unknown error"}`,
+      );
+    }
+  };
+
+  const copyRecipeLink = async () => {
+    const url = `${window.location.origin}${window.location.pathname}#recipe=${encodeRecipe(getCurrentRecipe())}`;
+
+    try {
+      await navigator.clipboard.writeText(url);
+      setIsRecipeLinkCopied(true);
+    } catch (error) {
+      setError(
+        `Failed to copy the link: ${error instanceof Error ? error.message : "Unknown error"}`,
+      );
+    }
+  };
+
+  const saveTemplateToLibrary = async () => {
+    const templateFile = uploadedFiles.find((file) => file.isTemplateFile);
+
+    if (!templateFile?.headers) return;
+
+    const name =
+      libraryName.trim() || templateFile.name.replace(/\.[^.]+$/, "");
+
+    try {
+      await saveTemplate({
+        name,
+        headers: templateFile.headers,
+        columnMapping: cleaningOptions.columnMapping,
+        columnRules: cleaningOptions.columnRules,
+        schema: cleaningOptions.schema,
+        savedAt: Date.now(),
+      });
+      setSavedTemplateName(name);
+      refreshLibrary();
+    } catch (error) {
+      setError(
+        `Failed to save template: ${error instanceof Error ? error.message : "Unknown error"}`,
+      );
+    }
+  };
+
+  const removeLibraryTemplate = async (name: string) => {
+    try {
+      await deleteTemplate(name);
+      refreshLibrary();
+    } catch (error) {
+      setError(
+        `Failed to delete template: ${error instanceof Error ? error.message : "Unknown error"}`,
+      );
+    }
+  };
+
+  const handleLibraryImport = async (
+    event: React.ChangeEvent<HTMLInputElement>,
+  ) => {
+    const file = event.target.files?.[0];
+
+    event.target.value = "";
+    if (!file) return;
+
+    try {
+      await importTemplates(parseTemplateLibrary(await file.text()));
+      refreshLibrary();
+    } catch (error) {
+      setError(
+        `Failed to import ${file.name}: ${error instanceof Error ? error.message : "Unknown error"}`,
+      );
+    }
+  };
+
+  const handleLibraryExport = () => {
+    const json = exportTemplateLibrary(libraryTemplates);
+
+    downloadBlob(
+      new Blob([json], { type: "application/json" }),
+      "template-library.json",
+    );
+  };
+
+  const retryFile = async (uploadedFile: UploadedFile) => {
+    updateFile(uploadedFile.id, { failed: false, progress: 0 });
+
+    const changes = await parseUploadedFile(uploadedFile);
+
+    if (changes) applyParsedFiles(new Map([[uploadedFile.id, changes]]));
+  };
+
   const removeFile = (index: number) => {
+    parseControllersRef.current.get(uploadedFiles[index].id)?.abort();
+
     const newFiles = uploadedFiles.filter((_, i) => i !== index);
-    const detectedFiles = detectFileTypes(newFiles);
+    const detectedFiles = detectFileTypes(newFiles, fileMode !== "single");
+
     setUploadedFiles(detectedFiles);
     
     // Cancel countdown if less than 2 files
@@ -291,10 +849,29 @@ export default function Home() {
   };
 
   const clearAllFiles = () => {
+    parseControllersRef.current.forEach((controller) => controller.abort());
     setUploadedFiles([]);
     setError(null);
     setAutoAdvanceCountdown(null);
-    localStorage.removeItem('uploadedFiles');
+  };
+
+  // Drop everything, including the copy of the session saved in IndexedDB
+  const resetSession = () => {
+    cleaningControllerRef.current?.abort();
+    clearAllFiles();
+    setCurrentStep(1);
+    setCleaningResult(null);
+    setBatchResults([]);
+    setPendingResult(null);
+    setFileMode("single");
+    setIsProcessing(false);
+    setRejectedMatches([]);
+    setLibraryName("");
+    setSavedTemplateName(null);
+    setCleaningOptions(DEFAULT_CLEANING_OPTIONS);
+    setRestoredAt(null);
+    persistedFileIdsRef.current.clear();
+    discardSession().catch(reportStorageError("discard the session"));
   };
 
   const getFileExtension = (filename: string) => {
@@ -311,6 +888,20 @@ export default function Home() {
 
   const toggleFileType = (fileId: string, newType: 'data' | 'template') => {
     const updatedFiles = uploadedFiles.map(file => {
+      if (fileMode !== "single") {
+        // Any number of data files: Data toggles a file in or out of the batch
+        // or merge, and the template it replaces joins them
+        if (file.id === fileId) {
+          return newType === "data"
+            ? { ...file, isDataFile: !file.isDataFile, isTemplateFile: false }
+            : { ...file, isDataFile: false, isTemplateFile: true };
+        }
+
+        return newType === "template" && file.isTemplateFile
+          ? { ...file, isDataFile: true, isTemplateFile: false }
+          : file;
+      }
+
       if (file.id === fileId) {
         return {
           ...file,
@@ -348,7 +939,7 @@ export default function Home() {
     // Step 2 is only accessible if step 1 is complete (has 2+ files)
     // Step 3 is only accessible if step 2 is complete (data cleaning done)
     const canAccessStep2 = uploadedFiles.length >= 2;
-    const canAccessStep3 = cleaningResult !== null;
+    const canAccessStep3 = cleaningResult !== null || batchResults.length > 0;
     
     if (newStep === 1 || 
         (newStep === 2 && (newStep <= currentStep || canAccessStep2)) ||
@@ -365,106 +956,199 @@ export default function Home() {
     }
   };
 
-  const cleanData = (dataFile: UploadedFile, templateFile: UploadedFile, options: typeof cleaningOptions) => {
-    if (!dataFile.data || !templateFile.data || !dataFile.headers || !templateFile.headers) {
-      throw new Error('File data is not available');
-    }
-
-    const templateHeaders = templateFile.headers;
-    const dataHeaders = dataFile.headers;
-    const originalData = dataFile.data.slice(); // Create a copy
+  const changeFileMode = (mode: FileMode) => {
+    setFileMode(mode);
+    setUploadedFiles((prev) => detectFileTypes(prev, mode !== "single"));
+  };
 
-    // Step 1: Find columns to keep (intersection of data and template columns)
-    const columnsToKeep: number[] = [];
-    const keptHeaders: string[] = [];
-    
-    templateHeaders.forEach(templateHeader => {
-      const dataIndex = dataHeaders.indexOf(templateHeader);
-      if (dataIndex !== -1) {
-        columnsToKeep.push(dataIndex);
-        keptHeaders.push(templateHeader);
-      }
-    });
+  const cleanFile = (
+    dataFile: UploadedFile,
+    template: Table,
+    taskOptions: WorkerTaskOptions,
+    options = cleaningOptions,
+  ) => {
+    if (!dataFile.table) {
+      throw new Error("File data is not available");
+    }
 
-    // Step 2: Filter columns
-    const filteredData = originalData.map(row => 
-      columnsToKeep.map(colIndex => row[colIndex] || '')
-    );
+    return dataFile.streamed
+      ? cleanFileInWorker(dataFile.file, template, options, taskOptions)
+      : cleanDataInWorker(dataFile.table, template, options, taskOptions);
+  };
 
-    let cleanedData = filteredData;
-    let duplicateRowsRemoved = 0;
+  // Likely duplicates are reviewed in Step 2 before the result is final
+  const finishCleaning = (result: CleaningResult | StreamedCleaningResult) => {
+    if ("table" in result && result.fuzzyClusters.length > 0) {
+      setPendingResult(result);
+      setRejectedClusters([]);
 
-    // Step 3: Apply cleaning options
-    if (cleanedData.length > 1) {
-      const header = cleanedData[0];
-      let dataRows = cleanedData.slice(1);
-      
-      // Remove duplicates if requested
-      if (options.removeDuplicates) {
-        const uniqueRows: any[][] = [];
-        const seenRows = new Set<string>();
-
-        dataRows.forEach(row => {
-          const rowKey = JSON.stringify(row);
-          if (!seenRows.has(rowKey)) {
-            seenRows.add(rowKey);
-            uniqueRows.push(row);
-          } else {
-            duplicateRowsRemoved++;
-          }
-        });
-        
-        dataRows = uniqueRows;
-      }
-      
-      // Remove empty rows if requested
-      if (options.removeEmptyRows) {
-        dataRows = dataRows.filter(row => row.some(cell => cell && cell.toString().trim() !== ''));
-      }
-      
-      // Apply text transformations if requested
-      if (options.trimWhitespace || options.convertToUppercase || options.convertToLowercase || options.removeSpecialCharacters || options.removeLeadingZeros) {
-        dataRows = dataRows.map(row => 
-          row.map(cell => {
-            let cellValue = cell?.toString() || '';
-            
-            if (options.trimWhitespace) {
-              cellValue = cellValue.trim();
-            }
-            
-            if (options.convertToUppercase) {
-              cellValue = cellValue.toUpperCase();
-            } else if (options.convertToLowercase) {
-              cellValue = cellValue.toLowerCase();
-            }
-            
-            if (options.removeSpecialCharacters) {
-              cellValue = cellValue.replace(/[^a-zA-Z0-9\s]/g, '');
-            }
-            
-            if (options.removeLeadingZeros && /^0+\d/.test(cellValue)) {
-              cellValue = cellValue.replace(/^0+/, '');
-            }
-            
-            return cellValue;
-          })
-        );
-      }
-      
-      cleanedData = [header, ...dataRows];
+      return;
     }
 
-    const result: CleaningResult = {
-      totalRowsCleaned: cleanedData.length - 1, // Exclude header
-      columnsDeleted: dataHeaders.length - keptHeaders.length,
-      duplicateRowsRemoved,
-      cleanedData
-    };
+    setCleaningResult(result);
+    setBatchResults([]);
+    handleStepChange(3);
+  };
 
-    return result;
+  const toggleCluster = (index: number, accepted: boolean) => {
+    setRejectedClusters((prev) =>
+      accepted ? prev.filter((i) => i !== index) : [...prev, index],
+    );
   };
 
-  const handleCleanData = async () => {
+  const handleFinishReview = () => {
+    if (!pendingResult) return;
+
+    const accepted = pendingResult.fuzzyClusters.filter(
+      (_, index) => !rejectedClusters.includes(index),
+    );
+
+    setPendingResult(null);
+    finishCleaning(
+      applyFuzzyClusters(
+        pendingResult,
+        accepted,
+        cleaningOptions.duplicateStrategy,
+      ),
+    );
+  };
+
+  // Stack every data file onto the template and clean them as one table
+  const handleCleanMerged = async () => {
+    const templateFile = uploadedFiles.find((file) => file.isTemplateFile);
+    const dataFiles = uploadedFiles.filter((file) => file.isDataFile);
+    const streamedFile = dataFiles.find((file) => file.streamed);
+
+    if (!templateFile?.table || dataFiles.length === 0) {
+      setError(
+        "Please assign a Template and at least one Data file before proceeding.",
+      );
+
+      return;
+    }
+
+    if (streamedFile) {
+      setError(
+        `${streamedFile.name} is too large to merge in memory. Clean it in batch mode instead.`,
+      );
+
+      return;
+    }
+
+    const controller = new AbortController();
+
+    cleaningControllerRef.current = controller;
+    setIsProcessing(true);
+    setCleaningProgress(null);
+
+    try {
+      const files = dataFiles.map((file) => ({
+        name: file.name,
+        table: file.table!,
+      }));
+      const result = await cleanMergedDataInWorker(
+        files,
+        templateFile.table,
+        cleaningOptions,
+        {
+          signal: controller.signal,
+          onProgress: setCleaningProgress,
+        },
+      );
+
+      finishCleaning(result);
+    } catch (error) {
+      if (isAbortError(error)) return;
+
+      setError(
+        `Failed to process data: ${error instanceof Error ? error.message : "Unknown error"}`,
+      );
+    } finally {
+      cleaningControllerRef.current = null;
+      setIsProcessing(false);
+      setCleaningProgress(null);
+    }
+  };
+
+  // Clean every data file with the same template and options, one at a time
+  const handleCleanBatch = async () => {
+    const templateFile = uploadedFiles.find((file) => file.isTemplateFile);
+    const dataFiles = uploadedFiles.filter((file) => file.isDataFile);
+
+    if (!templateFile?.table || dataFiles.length === 0) {
+      setError(
+        "Please assign a Template and at least one Data file before proceeding.",
+      );
+
+      return;
+    }
+
+    const controller = new AbortController();
+
+    cleaningControllerRef.current = controller;
+    setIsProcessing(true);
+    setCleaningProgress(null);
+
+    try {
+      const results: BatchFileResult[] = [];
+
+      for (let index = 0; index < dataFiles.length; index++) {
+        const dataFile = dataFiles[index];
+
+        setBatchProgress({ file: index + 1, total: dataFiles.length });
+        setCleaningProgress(null);
+
+        try {
+          // Batches are not reviewed, so likely duplicates are not looked for
+          const result = await cleanFile(
+            dataFile,
+            templateFile.table,
+            {
+              signal: controller.signal,
+              onProgress: setCleaningProgress,
+            },
+            { ...cleaningOptions, fuzzyColumns: [] },
+          );
+
+          results.push({
+            fileId: dataFile.id,
+            fileName: dataFile.name,
+            result,
+            error: null,
+          });
+        } catch (error) {
+          if (isAbortError(error)) throw error;
+
+          results.push({
+            fileId: dataFile.id,
+            fileName: dataFile.name,
+            result: null,
+            error: error instanceof Error ? error.message : "Unknown error",
+          });
+        }
+      }
+
+      setCleaningResult(null);
+      setBatchResults(results);
+      handleStepChange(3);
+    } catch (error) {
+      if (isAbortError(error)) return;
+
+      setError(
+        `Failed to process data: ${error instanceof Error ? error.message : "Unknown error"}`,
+      );
+    } finally {
+      cleaningControllerRef.current = null;
+      setIsProcessing(false);
+      setCleaningProgress(null);
+      setBatchProgress(null);
+    }
+  };
+
+  const handleCleanData = async () => {
+    if (fileMode === "batch") return handleCleanBatch();
+    if (fileMode === "merge") return handleCleanMerged();
+
     const templateFile = uploadedFiles.find(file => file.isTemplateFile);
     const dataFile = uploadedFiles.find(file => file.isDataFile);
     
@@ -473,56 +1157,322 @@ export default function Home() {
       return;
     }
     
+    const controller = new AbortController();
+
+    cleaningControllerRef.current = controller;
     setIsProcessing(true);
+    setCleaningProgress(null);
     
     try {
-      // Simulate processing time
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      const result = cleanData(dataFile, templateFile, cleaningOptions);
+      if (!templateFile.table) {
+        throw new Error("File data is not available");
+      }
+
+      const result = await cleanFile(dataFile, templateFile.table, {
+        signal: controller.signal,
+        onProgress: setCleaningProgress,
+      });
       
-      setCleaningResult(result);
-      handleStepChange(3);
+      finishCleaning(result);
     } catch (error) {
+      if (isAbortError(error)) return;
+
       console.error('Error cleaning data:', error);
       setError(`Failed to process data: ${error instanceof Error ? error.message : 'Unknown error'}`);
     } finally {
+      cleaningControllerRef.current = null;
       setIsProcessing(false);
+      setCleaningProgress(null);
     }
   };
 
-  const handleDownload = (format: 'csv' | 'xlsx') => {
-    if (!cleaningResult?.cleanedData) return;
-    
-    const data = cleaningResult.cleanedData;
-    const timestamp = new Date().toISOString().split('T')[0];
-    const filename = `cleaned-data-${timestamp}`;
+  const cancelCleaning = () => {
+    cleaningControllerRef.current?.abort();
+  };
+
+  const handleDownload = (format: DownloadFormat) => {
+    if (!cleaningResult) return;
     
-    if (format === 'csv') {
-      // Convert to CSV
-      const csv = Papa.unparse(data, {
-        quotes: true,
-        header: false
-      });
-      
-      const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
-      const link = document.createElement('a');
-      const url = URL.createObjectURL(blob);
-      link.setAttribute('href', url);
-      link.setAttribute('download', `${filename}.csv`);
-      link.style.visibility = 'hidden';
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-    } else if (format === 'xlsx') {
-      // Convert to Excel
-      const ws = XLSX.utils.aoa_to_sheet(data);
-      const wb = XLSX.utils.book_new();
-      XLSX.utils.book_append_sheet(wb, ws, 'Cleaned Data');
-      XLSX.writeFile(wb, `${filename}.xlsx`);
+    // Streamed results only exist as CSV
+    const blob =
+      "csv" in cleaningResult
+        ? cleaningResult.csv
+        : tableToBlob(cleaningResult.table, format);
+
+    downloadBlob(
+      blob,
+      getDownloadFilename("csv" in cleaningResult ? "csv" : format),
+    );
+  };
+
+  // Streamed results only exist as CSV
+  const getResultFormat = (
+    result: CleaningResult | StreamedCleaningResult,
+    format: DownloadFormat,
+  ): DownloadFormat => ("csv" in result ? "csv" : format);
+
+  const getResultBlob = (
+    result: CleaningResult | StreamedCleaningResult,
+    format: DownloadFormat,
+  ) => ("csv" in result ? result.csv : tableToBlob(result.table, format));
+
+  const handleDownloadBatchFile = (
+    entry: BatchFileResult,
+    format: DownloadFormat,
+  ) => {
+    if (!entry.result) return;
+
+    const [name] = getOutputFilenames([
+      { name: entry.fileName, format: getResultFormat(entry.result, format) },
+    ]);
+
+    downloadBlob(getResultBlob(entry.result, format), name);
+  };
+
+  const handleDownloadBatchRejects = (entry: BatchFileResult) => {
+    if (!entry.result) return;
+
+    const [name] = getOutputFilenames(
+      [{ name: entry.fileName, format: "csv" }],
+      "rejects",
+    );
+
+    downloadBlob(tableToBlob(entry.result.rejects, "csv"), name);
+  };
+
+  const handleDownloadBatchZip = async (format: DownloadFormat) => {
+    const cleaned = batchResults.flatMap((entry) =>
+      entry.result ? [{ name: entry.fileName, result: entry.result }] : [],
+    );
+    const withRejects = cleaned.filter(({ result }) => result.rejectedRows > 0);
+    const withDuplicates = cleaned.filter(
+      ({ result }) => result.duplicates.rows.length > 0,
+    );
+    const outputNames = getOutputFilenames(
+      cleaned.map(({ name, result }) => ({
+        name,
+        format: getResultFormat(result, format),
+      })),
+    );
+    const rejectNames = getOutputFilenames(
+      withRejects.map(({ name }) => ({ name, format })),
+      "rejects",
+    );
+    const duplicateNames = getOutputFilenames(
+      withDuplicates.map(({ name }) => ({ name, format })),
+      "duplicates",
+    );
+
+    try {
+      // The tables are written out and the archive is built in a worker
+      const zip = await zipFilesInWorker([
+        ...cleaned.map(({ result }, index) =>
+          "csv" in result
+            ? { name: outputNames[index], blob: result.csv }
+            : { name: outputNames[index], table: result.table, format },
+        ),
+        ...withRejects.map(({ result }, index) => ({
+          name: rejectNames[index],
+          table: result.rejects,
+          format,
+        })),
+        ...withDuplicates.map(({ result }, index) => ({
+          name: duplicateNames[index],
+          table: result.duplicates,
+          format,
+        })),
+      ]);
+
+      downloadBlob(zip, getDownloadFilename("zip"));
+    } catch (error) {
+      setError(
+        `Failed to build the ZIP: ${error instanceof Error ? error.message : "Unknown error"}`,
+      );
+    }
+  };
+
+  // Removed duplicates are held in memory, up to MAX_STREAMED_AUDIT_ROWS for streamed files, so both formats work
+  const handleDownloadDuplicates = (format: DownloadFormat) => {
+    if (!cleaningResult) return;
+
+    downloadBlob(
+      tableToBlob(cleaningResult.duplicates, format),
+      getDownloadFilename(format, "duplicates"),
+    );
+  };
+
+  // So are rejects
+  const handleDownloadRejects = (format: DownloadFormat) => {
+    if (!cleaningResult) return;
+
+    downloadBlob(
+      tableToBlob(cleaningResult.rejects, format),
+      getDownloadFilename(format, "rejects"),
+    );
+  };
+
+  const confirmHeaderMatch = ({ templateHeader, dataHeader }: HeaderMatch) => {
+    setCleaningOptions((prev) => ({
+      ...prev,
+      columnMapping: { ...prev.columnMapping, [templateHeader]: dataHeader },
+    }));
+  };
+
+  const rejectHeaderMatch = (match: HeaderMatch) => {
+    setRejectedMatches((prev) => [...prev, match]);
+  };
+
+  const setColumnSource = (
+    templateHeader: string,
+    dataHeader: string | null,
+  ) => {
+    setCleaningOptions((prev) => ({
+      ...prev,
+      columnMapping: { ...prev.columnMapping, [templateHeader]: dataHeader },
+    }));
+  };
+
+  const setSchema = (schema: TemplateSchema) => {
+    setCleaningOptions((prev) => ({ ...prev, schema }));
+  };
+
+  const handleSchemaFile = async (
+    event: React.ChangeEvent<HTMLInputElement>,
+  ) => {
+    const file = event.target.files?.[0];
+
+    event.target.value = "";
+    if (!file) return;
+
+    try {
+      setSchema(parseSchemaJson(await file.text()));
+      setError(null);
+    } catch (error) {
+      setError(
+        `Failed to load ${file.name}: ${error instanceof Error ? error.message : "Unknown error"}`,
+      );
     }
   };
 
+  const describeColumnSchema = (column: ColumnSchema) => [
+    COLUMN_TYPE_LABELS[column.type],
+    ...(column.required ? ["required"] : []),
+    ...(column.values ? [column.values.join(" | ")] : []),
+    ...(column.pattern !== undefined ? [`matches ${column.pattern}`] : []),
+    ...(column.min !== undefined ? [`min ${column.min}`] : []),
+    ...(column.max !== undefined ? [`max ${column.max}`] : []),
+    ...(column.maxLength !== undefined
+      ? [`at most ${column.maxLength} characters`]
+      : []),
+  ];
+
+  const handleDownloadViolations = () => {
+    if (!cleaningResult) return;
+
+    const table: Table = {
+      headers: ["Row", "Column", "Column Number", "Value", "Rule", "Problem"],
+      rows: cleaningResult.violations.map((violation) => [
+        violation.row,
+        violation.column,
+        violation.columnNumber,
+        violation.value,
+        violation.rule,
+        violation.message,
+      ]),
+    };
+
+    downloadBlob(
+      tableToBlob(table, "csv"),
+      getDownloadFilename("csv", "violations"),
+    );
+  };
+
+  const setStepEnabled = (id: CleaningStepId, enabled: boolean) => {
+    setCleaningOptions((prev) => ({
+      ...prev,
+      steps: enableSteps(prev.steps, [id], enabled),
+    }));
+  };
+
+  const reorderStep = (from: number, to: number) => {
+    setCleaningOptions((prev) => ({
+      ...prev,
+      steps: moveStep(prev.steps, from, to),
+    }));
+  };
+
+  // Applies a change to a column's rule, dropping the rule once nothing in it
+  // differs from the global options.
+  const updateColumnRule = (
+    column: string,
+    update: (rule: ColumnRule) => ColumnRule,
+  ) => {
+    setCleaningOptions((prev) => {
+      const columnRules = { ...prev.columnRules };
+      const rule = update(columnRules[column] ?? { steps: {} });
+
+      if (
+        Object.keys(rule.steps).length === 0 &&
+        rule.characterAllowlist === undefined &&
+        !rule.dateOutput &&
+        !rule.valueMap
+      ) {
+        delete columnRules[column];
+      } else {
+        columnRules[column] = rule;
+      }
+
+      return { ...prev, columnRules };
+    });
+  };
+
+  const setColumnStep = (
+    column: string,
+    id: CleaningStepId,
+    enabled: boolean | null,
+  ) => {
+    updateColumnRule(column, (rule) => {
+      const steps = { ...rule.steps };
+
+      if (enabled === null) {
+        delete steps[id];
+      } else {
+        steps[id] = enabled;
+      }
+
+      return { ...rule, steps };
+    });
+  };
+
+  // Replace the values with one canonical value before any step runs
+  const mergeColumnValues = (
+    column: string,
+    values: string[],
+    canonical: string,
+  ) => {
+    updateColumnRule(column, (rule) => ({
+      ...rule,
+      valueMap: mergeValues(rule.valueMap ?? {}, values, canonical),
+    }));
+  };
+
+  const unmapColumnValue = (column: string, value: string) => {
+    updateColumnRule(column, (rule) => {
+      const valueMap = { ...rule.valueMap };
+
+      delete valueMap[value];
+
+      return {
+        ...rule,
+        valueMap: Object.keys(valueMap).length > 0 ? valueMap : undefined,
+      };
+    });
+  };
+
+  const resetColumnRule = (column: string) => {
+    updateColumnRule(column, () => ({ steps: {} }));
+  };
+
   const renderStep1 = () => (
     <>
       <p className="text-sm text-default-500 mb-4">{cardData[0].instructions}</p>
@@ -551,21 +1501,22 @@ export default function Home() {
       <FileUpload.Root>
         <FileUpload.DropZone
           onDropFiles={handleFileUpload}
-          hint="CSV, XLSX (Max. 5MB)"
+          hint={`CSV (any size), XLSX (Max. ${formatFileSize(MAX_WORKBOOK_BYTES)})`}
           accept=".csv, .xlsx, application/vnd.openxmlformats-officedocument.spreadsheetml.sheet, text/csv"
-          maxSize={5 * 1024 * 1024}
         />
         {uploadedFiles.length > 0 && (
           <div className="space-y-4">
             <FileUpload.List>
-              {uploadedFiles.map((file, fileIndex) => (
+              {uploadedFiles.filter(isUpload).map((file) => (
                 <div key={file.id} className="space-y-2">
                   <FileUpload.ListItemProgressBar
+                    failed={file.failed}
                     name={file.name}
+                    progress={file.progress ?? 100}
                     size={file.size}
-                    progress={100}
                     type={getFileExtension(file.name).toLowerCase() as any}
-                    onDelete={() => removeFile(fileIndex)}
+                    onDelete={() => removeFile(uploadedFiles.indexOf(file))}
+                    onRetry={() => retryFile(file)}
                   />
                   
                   {/* File Info */}
@@ -591,6 +1542,97 @@ export default function Home() {
         )}
       </FileUpload.Root>
 
+      {/* Template Library */}
+      <div className="mt-4 p-4 bg-content2 rounded-lg space-y-3">
+        <div className="flex items-center justify-between gap-2">
+          <div>
+            <h4 className="font-medium text-foreground">Template Library</h4>
+            <p className="text-xs text-foreground-500">
+              Pick a saved template instead of uploading one. Its mapping and
+              rules come with it.
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <input
+              ref={libraryInputRef}
+              accept=".json,application/json"
+              className="hidden"
+              type="file"
+              onChange={handleLibraryImport}
+            />
+            <Button
+              size="sm"
+              variant="flat"
+              onClick={() => libraryInputRef.current?.click()}
+            >
+              Import
+            </Button>
+            <Button
+              isDisabled={libraryTemplates.length === 0}
+              size="sm"
+              variant="flat"
+              onClick={handleLibraryExport}
+            >
+              Export
+            </Button>
+          </div>
+        </div>
+        {libraryTemplates.length === 0 ? (
+          <p className="text-sm text-foreground-500">
+            No saved templates yet. Save a template from Step 2 to reuse it
+            here.
+          </p>
+        ) : (
+          <div className="space-y-1">
+            {libraryTemplates.map((template) => {
+              const libraryIndex = uploadedFiles.findIndex(
+                (file) => file.isLibraryTemplate && file.name === template.name,
+              );
+
+              return (
+                <div
+                  key={template.name}
+                  className="flex items-center gap-2 rounded-lg bg-content1 px-3 py-2"
+                >
+                  <span className="text-sm font-medium flex-1 truncate">
+                    {template.name}
+                  </span>
+                  <Chip size="sm" variant="flat">
+                    {template.headers.length} columns
+                  </Chip>
+                  {libraryIndex === -1 ? (
+                    <Button
+                      color="success"
+                      size="sm"
+                      variant="flat"
+                      onClick={() => pickLibraryTemplate(template)}
+                    >
+                      Use
+                    </Button>
+                  ) : (
+                    <Button
+                      size="sm"
+                      variant="flat"
+                      onClick={() => removeFile(libraryIndex)}
+                    >
+                      Stop using
+                    </Button>
+                  )}
+                  <Button
+                    color="danger"
+                    size="sm"
+                    variant="light"
+                    onClick={() => removeLibraryTemplate(template.name)}
+                  >
+                    Delete
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
       {/* File count and Next Button */}
       {uploadedFiles.length > 0 && (
         <div className="mt-4 text-center">
@@ -663,6 +1705,58 @@ export default function Home() {
           </div>
         )}
         
+        {/* File Mode */}
+        {(uploadedFiles.length > 2 || fileMode !== "single") && (
+          <div className="p-3 bg-content2 rounded-lg">
+            <RadioGroup
+              label="Data files"
+              size="sm"
+              value={fileMode}
+              onValueChange={(value) => changeFileMode(value as FileMode)}
+            >
+              <Radio value="single">Clean only the detected data file</Radio>
+              <Radio value="batch">
+                Batch: clean every data file on its own with this template and
+                options
+              </Radio>
+              <Radio value="merge">
+                Merge: stack every data file into one cleaned output
+              </Radio>
+            </RadioGroup>
+            {fileMode !== "single" && (
+              <p className="text-xs text-foreground-500 mt-1">
+                {uploadedFiles.filter((file) => file.isDataFile).length} data
+                files will be cleaned. Click Data on a file to leave it out.
+              </p>
+            )}
+            {fileMode === "merge" && (
+              <>
+                <p className="text-xs text-foreground-500 mt-1">
+                  Each file&apos;s columns are lined up with the template by the
+                  column mapping, whatever their order, and duplicates are
+                  removed across all files.
+                </p>
+                <Checkbox
+                  className="mt-2"
+                  isSelected={cleaningOptions.sourceFileColumn}
+                  size="sm"
+                  onValueChange={(value) =>
+                    setCleaningOptions((prev) => ({
+                      ...prev,
+                      sourceFileColumn: value,
+                    }))
+                  }
+                >
+                  <span className="text-sm">
+                    Add a &quot;{SOURCE_FILE_HEADER}&quot; column naming each
+                    row&apos;s file
+                  </span>
+                </Checkbox>
+              </>
+            )}
+          </div>
+        )}
+
         {/* File Details */}
         <div className="space-y-3">
           {uploadedFiles.map((file, index) => (
@@ -752,22 +1846,239 @@ export default function Home() {
                 );
               }
               
-              const keptColumns = templateFile.headers.filter(col => dataFile.headers!.includes(col));
-              const removedColumns = dataFile.headers.filter(col => !templateFile.headers!.includes(col));
+              const matches = matchColumns(
+                dataFile.headers,
+                templateFile.headers,
+                cleaningOptions.columnMapping,
+              );
+              const keptColumns = matches.map(({ header }) => header);
+              const removedColumns = dataFile.headers.filter(
+                (_, index) => !matches.some((match) => match.index === index),
+              );
+              const unmappedColumns = templateFile.headers.filter(
+                (header) => !keptColumns.includes(header),
+              );
+              const proposedMatches = proposeHeaderMatches(
+                dataFile.headers,
+                templateFile.headers,
+                cleaningOptions.columnMapping,
+              ).filter(
+                (match) =>
+                  !rejectedMatches.some(
+                    (rejected) =>
+                      rejected.templateHeader === match.templateHeader &&
+                      rejected.dataHeader === match.dataHeader,
+                  ),
+              );
               
               return (
                 <div className="space-y-3">
+                  {fileMode !== "single" && (
+                    <p className="text-xs text-foreground-500">
+                      The preview shows {dataFile.name}. The mapping applies to
+                      every data file by header name.
+                    </p>
+                  )}
+                  {proposedMatches.length > 0 && (
+                    <div>
+                      <p className="text-sm font-medium text-warning mb-1">
+                        Possible matches ({proposedMatches.length}):
+                      </p>
+                      <p className="text-xs text-foreground-500 mb-2">
+                        These data columns are named differently from the
+                        template. Confirm a match to keep the column under the
+                        template&apos;s name.
+                      </p>
+                      <div className="space-y-1">
+                        {proposedMatches.map((match) => (
+                          <div
+                            key={match.templateHeader}
+                            className="flex flex-wrap items-center gap-2 rounded-lg bg-content2 px-2 py-1"
+                          >
+                            <span className="text-sm font-mono">
+                              {match.dataHeader}
+                            </span>
+                            <span className="text-foreground-400">→</span>
+                            <span className="text-sm font-medium">
+                              {match.templateHeader}
+                            </span>
+                            <Chip
+                              color={
+                                match.confidence === 1 ? "success" : "warning"
+                              }
+                              size="sm"
+                              variant="flat"
+                            >
+                              {Math.round(match.confidence * 100)}% match
+                            </Chip>
+                            <div className="ml-auto flex gap-1">
+                              <Button
+                                color="success"
+                                size="sm"
+                                variant="flat"
+                                onClick={() => confirmHeaderMatch(match)}
+                              >
+                                Confirm
+                              </Button>
+                              <Button
+                                color="danger"
+                                size="sm"
+                                variant="light"
+                                onClick={() => rejectHeaderMatch(match)}
+                              >
+                                Reject
+                              </Button>
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  <div>
+                    <p className="text-sm font-medium text-foreground mb-1">
+                      Column mapping
+                      {unmappedColumns.length > 0 && (
+                        <span className="text-danger">
+                          {" "}
+                          ({unmappedColumns.length} unmapped)
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-xs text-foreground-500 mb-2">
+                      Pick the data column that feeds each template column.
+                      Columns with the same name are mapped automatically.
+                    </p>
+                    <div className="space-y-1">
+                      {templateFile.headers.map((header) => {
+                        const match = matches.find(
+                          (match) => match.header === header,
+                        );
+
+                        return (
+                          <div
+                            key={header}
+                            className={`grid grid-cols-[1fr_1fr_auto] items-center gap-2 rounded-lg px-2 py-1 ${match ? "bg-content2" : "bg-danger-50"}`}
+                          >
+                            <span className="text-sm font-medium truncate">
+                              {header}
+                            </span>
+                            <Select
+                              disallowEmptySelection
+                              aria-label={`Data column for ${header}`}
+                              selectedKeys={[
+                                match ? String(match.index) : "none",
+                              ]}
+                              size="sm"
+                              onSelectionChange={(keys) => {
+                                const [key] = Array.from(keys);
+
+                                setColumnSource(
+                                  header,
+                                  key === "none"
+                                    ? null
+                                    : dataFile.headers![Number(key)],
+                                );
+                              }}
+                            >
+                              {[
+                                <SelectItem key="none">Not mapped</SelectItem>,
+                                ...dataFile.headers!.map(
+                                  (dataHeader, index) => (
+                                    <SelectItem key={String(index)}>
+                                      {dataHeader}
+                                    </SelectItem>
+                                  ),
+                                ),
+                              ]}
+                            </Select>
+                            {match ? (
+                              <Chip
+                                color={
+                                  dataFile.headers![match.index] === header
+                                    ? "success"
+                                    : "primary"
+                                }
+                                size="sm"
+                                variant="flat"
+                              >
+                                {dataFile.headers![match.index] === header
+                                  ? "Same name"
+                                  : "Mapped"}
+                              </Chip>
+                            ) : (
+                              <Chip color="danger" size="sm" variant="flat">
+                                Unmapped
+                              </Chip>
+                            )}
+                          </div>
+                        );
+                      })}
+                    </div>
+                    <div className="flex flex-wrap items-center gap-3 mt-2">
+                      <Checkbox
+                        isSelected={cleaningOptions.emitMissingColumns}
+                        size="sm"
+                        onValueChange={(value) =>
+                          setCleaningOptions((prev) => ({
+                            ...prev,
+                            emitMissingColumns: value,
+                          }))
+                        }
+                      >
+                        <span className="text-sm">
+                          Output every template column, even unmapped ones
+                        </span>
+                      </Checkbox>
+                      {cleaningOptions.emitMissingColumns && (
+                        <Input
+                          className="max-w-xs"
+                          label="Fill unmapped columns with"
+                          placeholder="Leave blank for empty cells"
+                          size="sm"
+                          value={cleaningOptions.missingColumnValue}
+                          onValueChange={(value) =>
+                            setCleaningOptions((prev) => ({
+                              ...prev,
+                              missingColumnValue: value,
+                            }))
+                          }
+                        />
+                      )}
+                    </div>
+                  </div>
+
                   <div>
                     <p className="text-sm font-medium text-success mb-1">
                       Columns to keep ({keptColumns.length}):
                     </p>
                     <div className="flex flex-wrap gap-1">
                       {keptColumns.map((col, idx) => (
-                        <Chip key={idx} size="sm" variant="flat" color="success">
+                        <Chip
+                          key={idx}
+                          as="button"
+                          className="cursor-pointer"
+                          color={
+                            col in cleaningOptions.columnRules
+                              ? "primary"
+                              : "success"
+                          }
+                          size="sm"
+                          variant={
+                            col in cleaningOptions.columnRules
+                              ? "solid"
+                              : "flat"
+                          }
+                          onClick={() => setRuleColumn(col)}
+                        >
                           {col}
                         </Chip>
                       ))}
                     </div>
+                    <p className="text-xs text-foreground-500 mt-1">
+                      Click a column to give it its own cleaning rules. Columns
+                      with their own rules are highlighted.
+                    </p>
                   </div>
                   
                   {removedColumns.length > 0 && (
@@ -784,6 +2095,31 @@ export default function Home() {
                       </div>
                     </div>
                   )}
+
+                  <div>
+                    <div className="flex items-center justify-between gap-2">
+                      <p className="text-sm font-medium text-foreground">
+                        Column profiles
+                      </p>
+                      <Button
+                        size="sm"
+                        variant="light"
+                        onClick={() => setIsProfileOpen((prev) => !prev)}
+                      >
+                        {isProfileOpen ? "Hide" : "Show"}
+                      </Button>
+                    </div>
+                    <p className="text-xs text-foreground-500">
+                      What each column of {dataFile.name} holds
+                      {dataFile.table &&
+                      (dataFile.streamed ||
+                        dataFile.table.rows.length > STREAM_SAMPLE_ROWS)
+                        ? `, judged from its first ${Math.min(dataFile.table.rows.length, STREAM_SAMPLE_ROWS)} rows`
+                        : ""}
+                      , to see which cleaning steps it needs.
+                    </p>
+                    {isProfileOpen && renderColumnProfiles(matches)}
+                  </div>
                 </div>
               );
             })()}
@@ -793,100 +2129,447 @@ export default function Home() {
         {/* Cleaning Options */}
         <div className="mt-4">
           <h4 className="text-sm font-medium text-foreground mb-2">Data Cleaning Options</h4>
-          <p className="text-xs text-foreground-600 mb-3">Select the cleaning operations you want to apply to your data:</p>
+          <p className="text-xs text-foreground-600 mb-3">
+            Select the cleaning steps you want to apply to your data. They run
+            on each row from top to bottom, so reorder them to decide, for
+            example, whether duplicates are found before or after trimming.
+          </p>
           
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
-            <Checkbox
-              isSelected={cleaningOptions.removeDuplicates}
-              onValueChange={(value) => setCleaningOptions(prev => ({ ...prev, removeDuplicates: value }))}
-              color="primary"
-              size="sm"
-            >
-              <span className="text-sm font-medium">Remove Duplicates</span>
-            </Checkbox>
-            
-            <Checkbox
-              isSelected={cleaningOptions.removeEmptyRows}
-              onValueChange={(value) => setCleaningOptions(prev => ({ ...prev, removeEmptyRows: value }))}
-              color="primary"
-              size="sm"
-            >
-              <span className="text-sm font-medium">Remove Empty Rows</span>
-            </Checkbox>
-            
-            <Checkbox
-              isSelected={cleaningOptions.removeEmptyColumns}
-              onValueChange={(value) => setCleaningOptions(prev => ({ ...prev, removeEmptyColumns: value }))}
-              color="primary"
-              size="sm"
-            >
-              <span className="text-sm font-medium">Remove Empty Columns</span>
-            </Checkbox>
-            
-            <Checkbox
-              isSelected={cleaningOptions.trimWhitespace}
-              onValueChange={(value) => setCleaningOptions(prev => ({ ...prev, trimWhitespace: value }))}
-              color="primary"
-              size="sm"
-            >
-              <span className="text-sm font-medium">Trim Whitespace</span>
-            </Checkbox>
-            
-            <Checkbox
-              isSelected={cleaningOptions.normalizeText}
-              onValueChange={(value) => setCleaningOptions(prev => ({ ...prev, normalizeText: value }))}
-              color="primary"
+          <ol className="space-y-1">
+            {cleaningOptions.steps.map((step, index) => (
+              <li
+                key={step.id}
+                className="flex items-center gap-2 rounded-lg bg-content2 px-2 py-1"
+              >
+                <span className="w-5 text-xs text-foreground-500 text-right">
+                  {index + 1}.
+                </span>
+                <Checkbox
+                  className="flex-1 max-w-none"
+                  color="primary"
+                  isSelected={step.enabled}
+                  size="sm"
+                  onValueChange={(value) => setStepEnabled(step.id, value)}
+                >
+                  <span className="text-sm font-medium">
+                    {CLEANING_STEP_LABELS[step.id]}
+                  </span>
+                </Checkbox>
+                {ROW_STEPS.includes(step.id) && (
+                  <Chip size="sm" variant="flat">
+                    Rows
+                  </Chip>
+                )}
+                <Button
+                  isIconOnly
+                  aria-label={`Move ${CLEANING_STEP_LABELS[step.id]} up`}
+                  isDisabled={index === 0}
+                  size="sm"
+                  variant="light"
+                  onClick={() => reorderStep(index, index - 1)}
+                >
+                  <ChevronDownIcon className="w-4 h-4 rotate-180" />
+                </Button>
+                <Button
+                  isIconOnly
+                  aria-label={`Move ${CLEANING_STEP_LABELS[step.id]} down`}
+                  isDisabled={index === cleaningOptions.steps.length - 1}
+                  size="sm"
+                  variant="light"
+                  onClick={() => reorderStep(index, index + 1)}
+                >
+                  <ChevronDownIcon className="w-4 h-4" />
+                </Button>
+              </li>
+            ))}
+          </ol>
+          <div className="flex justify-end mt-1">
+            <Button
               size="sm"
+              variant="light"
+              onClick={() =>
+                setCleaningOptions((prev) => ({
+                  ...prev,
+                  steps: DEFAULT_CLEANING_STEPS.map(({ id }) => ({
+                    id,
+                    enabled: isStepEnabled(prev, id),
+                  })),
+                }))
+              }
             >
-              <span className="text-sm font-medium">Normalize Text</span>
-            </Checkbox>
-            
-            <Checkbox
-              isSelected={cleaningOptions.removeSpecialCharacters}
-              onValueChange={(value) => setCleaningOptions(prev => ({ ...prev, removeSpecialCharacters: value }))}
-              color="primary"
-              size="sm"
-            >
-              <span className="text-sm font-medium">Remove Special Characters</span>
-            </Checkbox>
-            
-            <Checkbox
-              isSelected={cleaningOptions.standardizeDates}
-              onValueChange={(value) => setCleaningOptions(prev => ({ ...prev, standardizeDates: value }))}
-              color="primary"
-              size="sm"
-            >
-              <span className="text-sm font-medium">Standardize Dates</span>
-            </Checkbox>
-            
-            <Checkbox
-              isSelected={cleaningOptions.convertToUppercase}
-              onValueChange={(value) => setCleaningOptions(prev => ({ ...prev, convertToUppercase: value }))}
-              color="primary"
-              size="sm"
-            >
-              <span className="text-sm font-medium">Convert to Uppercase</span>
-            </Checkbox>
-            
-            <Checkbox
-              isSelected={cleaningOptions.convertToLowercase}
-              onValueChange={(value) => setCleaningOptions(prev => ({ ...prev, convertToLowercase: value }))}
-              color="primary"
-              size="sm"
-            >
-              <span className="text-sm font-medium">Convert to Lowercase</span>
-            </Checkbox>
-            
-            <Checkbox
-              isSelected={cleaningOptions.removeLeadingZeros}
-              onValueChange={(value) => setCleaningOptions(prev => ({ ...prev, removeLeadingZeros: value }))}
-              color="primary"
-              size="sm"
-            >
-              <span className="text-sm font-medium">Remove Leading Zeros</span>
-            </Checkbox>
+              Reset order
+            </Button>
           </div>
-          
+
+          {(isStepUsed(cleaningOptions, "normalizePersian") ||
+            isStepUsed(cleaningOptions, "normalizeText") ||
+            isStepUsed(cleaningOptions, "standardizeDates")) && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2 mt-3">
+              {isStepUsed(cleaningOptions, "normalizePersian") && (
+                <Select
+                  disallowEmptySelection
+                  label="Write digits as"
+                  selectedKeys={[cleaningOptions.digitScript]}
+                  size="sm"
+                  onSelectionChange={(keys) => {
+                    const [script] = Array.from(keys);
+
+                    setCleaningOptions((prev) => ({
+                      ...prev,
+                      digitScript: script as DigitScript,
+                    }));
+                  }}
+                >
+                  {(Object.keys(DIGIT_SCRIPT_LABELS) as DigitScript[]).map(
+                    (script) => (
+                      <SelectItem key={script}>
+                        {DIGIT_SCRIPT_LABELS[script]}
+                      </SelectItem>
+                    ),
+                  )}
+                </Select>
+              )}
+              {isStepUsed(cleaningOptions, "normalizeText") && (
+                <Select
+                  disallowEmptySelection
+                  label="Unicode normalization"
+                  selectedKeys={[cleaningOptions.normalizationForm]}
+                  size="sm"
+                  onSelectionChange={(keys) => {
+                    const [form] = Array.from(keys);
+
+                    setCleaningOptions((prev) => ({
+                      ...prev,
+                      normalizationForm: form as NormalizationForm,
+                    }));
+                  }}
+                >
+                  <SelectItem key="NFC">
+                    NFC (compose accented letters)
+                  </SelectItem>
+                  <SelectItem key="NFKC">
+                    NFKC (also fold full-width and ligature forms)
+                  </SelectItem>
+                </Select>
+              )}
+              {isStepUsed(cleaningOptions, "standardizeDates") && (
+                <Select
+                  disallowEmptySelection
+                  label="Date format"
+                  selectedKeys={[cleaningOptions.dateFormat]}
+                  size="sm"
+                  onSelectionChange={(keys) => {
+                    const [format] = Array.from(keys);
+
+                    setCleaningOptions((prev) => ({
+                      ...prev,
+                      dateFormat: String(format),
+                    }));
+                  }}
+                >
+                  {DATE_FORMATS.map((format) => (
+                    <SelectItem key={format}>{format}</SelectItem>
+                  ))}
+                </Select>
+              )}
+              {isStepUsed(cleaningOptions, "standardizeDates") && (
+                <Select
+                  disallowEmptySelection
+                  label="Ambiguous dates (e.g. 03/04/2022)"
+                  selectedKeys={[cleaningOptions.ambiguousDates]}
+                  size="sm"
+                  onSelectionChange={(keys) => {
+                    const [handling] = Array.from(keys);
+
+                    setCleaningOptions((prev) => ({
+                      ...prev,
+                      ambiguousDates: handling as AmbiguousDateHandling,
+                    }));
+                  }}
+                >
+                  <SelectItem key="flag">
+                    Follow the column, otherwise flag for review
+                  </SelectItem>
+                  <SelectItem key="monthFirst">
+                    Always month first (US)
+                  </SelectItem>
+                  <SelectItem key="dayFirst">Always day first (EU)</SelectItem>
+                </Select>
+              )}
+              {isStepUsed(cleaningOptions, "standardizeDates") && (
+                <Select
+                  disallowEmptySelection
+                  label="Calendar"
+                  selectedKeys={[cleaningOptions.dateCalendar]}
+                  size="sm"
+                  onSelectionChange={(keys) => {
+                    const [calendar] = Array.from(keys);
+
+                    setCleaningOptions((prev) => ({
+                      ...prev,
+                      dateCalendar: calendar as DateCalendar,
+                    }));
+                  }}
+                >
+                  {(Object.keys(DATE_CALENDAR_LABELS) as DateCalendar[]).map(
+                    (calendar) => (
+                      <SelectItem key={calendar}>
+                        {DATE_CALENDAR_LABELS[calendar]}
+                      </SelectItem>
+                    ),
+                  )}
+                </Select>
+              )}
+            </div>
+          )}
+
+          {isStepUsed(cleaningOptions, "removeSpecialCharacters") && (
+            <div className="mt-3 space-y-2">
+              <CheckboxGroup
+                label="Characters to keep (whitespace is always kept)"
+                orientation="horizontal"
+                size="sm"
+                value={cleaningOptions.keepCharacterCategories}
+                onValueChange={(categories) => {
+                  setCleaningOptions((prev) => ({
+                    ...prev,
+                    keepCharacterCategories: categories as CharacterCategory[],
+                  }));
+                }}
+              >
+                {(
+                  Object.keys(CHARACTER_CATEGORY_LABELS) as CharacterCategory[]
+                ).map((category) => (
+                  <Checkbox key={category} value={category}>
+                    {CHARACTER_CATEGORY_LABELS[category]}
+                  </Checkbox>
+                ))}
+              </CheckboxGroup>
+            </div>
+          )}
+
+          {isStepEnabled(cleaningOptions, "removeDuplicates") && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2 mt-3">
+              <Select
+                label="Match duplicates on"
+                placeholder="The whole row"
+                selectedKeys={cleaningOptions.duplicateKeys}
+                selectionMode="multiple"
+                size="sm"
+                onSelectionChange={(keys) => {
+                  setCleaningOptions((prev) => ({
+                    ...prev,
+                    duplicateKeys: Array.from(keys, String),
+                  }));
+                }}
+              >
+                {(
+                  uploadedFiles.find((file) => file.isTemplateFile)?.headers ??
+                  []
+                ).map((header) => (
+                  <SelectItem key={header}>{header}</SelectItem>
+                ))}
+              </Select>
+              <Select
+                disallowEmptySelection
+                description={
+                  hasStreamedFile
+                    ? "Large files can only keep the first row."
+                    : undefined
+                }
+                disabledKeys={
+                  hasStreamedFile
+                    ? Object.keys(DUPLICATE_STRATEGY_LABELS).filter(
+                        (strategy) => strategy !== "keepFirst",
+                      )
+                    : []
+                }
+                label="Of rows that match"
+                selectedKeys={[cleaningOptions.duplicateStrategy]}
+                size="sm"
+                onSelectionChange={(keys) => {
+                  const [strategy] = Array.from(keys);
+
+                  setCleaningOptions((prev) => ({
+                    ...prev,
+                    duplicateStrategy: strategy as DuplicateStrategy,
+                  }));
+                }}
+              >
+                {(
+                  Object.keys(DUPLICATE_STRATEGY_LABELS) as DuplicateStrategy[]
+                ).map((strategy) => (
+                  <SelectItem key={strategy}>
+                    {DUPLICATE_STRATEGY_LABELS[strategy]}
+                  </SelectItem>
+                ))}
+              </Select>
+              {fileMode !== "batch" && (
+                <>
+                  <Select
+                    description={
+                      hasStreamedFile
+                        ? "Large files are cleaned in chunks, so they are not searched for likely duplicates."
+                        : "Rows whose values are alike but not equal are listed for review before the result is final."
+                    }
+                    label="Look for likely duplicates in"
+                    placeholder="No columns"
+                    selectedKeys={cleaningOptions.fuzzyColumns}
+                    selectionMode="multiple"
+                    size="sm"
+                    onSelectionChange={(keys) => {
+                      setCleaningOptions((prev) => ({
+                        ...prev,
+                        fuzzyColumns: Array.from(keys, String),
+                      }));
+                    }}
+                  >
+                    {(
+                      uploadedFiles.find((file) => file.isTemplateFile)
+                        ?.headers ?? []
+                    ).map((header) => (
+                      <SelectItem key={header}>{header}</SelectItem>
+                    ))}
+                  </Select>
+                  {cleaningOptions.fuzzyColumns.length > 0 && (
+                    <div className="flex gap-2">
+                      <Select
+                        disallowEmptySelection
+                        label="Compare values by"
+                        selectedKeys={[cleaningOptions.fuzzyMethod]}
+                        size="sm"
+                        onSelectionChange={(keys) => {
+                          const [method] = Array.from(keys);
+
+                          setCleaningOptions((prev) => ({
+                            ...prev,
+                            fuzzyMethod: method as FuzzyMethod,
+                          }));
+                        }}
+                      >
+                        {(
+                          Object.keys(FUZZY_METHOD_LABELS) as FuzzyMethod[]
+                        ).map((method) => (
+                          <SelectItem key={method}>
+                            {FUZZY_METHOD_LABELS[method]}
+                          </SelectItem>
+                        ))}
+                      </Select>
+                      <Input
+                        className="max-w-[9rem]"
+                        label="Similarity (%)"
+                        max={100}
+                        min={50}
+                        size="sm"
+                        type="number"
+                        value={String(
+                          Math.round(cleaningOptions.fuzzyThreshold * 100),
+                        )}
+                        onValueChange={(value) => {
+                          const percent = Number(value);
+
+                          setCleaningOptions((prev) => ({
+                            ...prev,
+                            fuzzyThreshold:
+                              value === "" || Number.isNaN(percent)
+                                ? DEFAULT_FUZZY_THRESHOLD
+                                : Math.min(Math.max(percent, 50), 100) / 100,
+                          }));
+                        }}
+                      />
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          )}
+
+          {renderValidationRules()}
+
+          <div className="mt-4">
+            <h4 className="text-sm font-medium text-foreground mb-2">
+              Cleaning Recipe
+            </h4>
+            <p className="text-xs text-foreground-600 mb-3">
+              A recipe holds every option on this page plus the template&apos;s
+              headers. Download it to reuse later, or share a link that opens
+              the app preconfigured.
+            </p>
+            <div className="flex flex-wrap items-center gap-2">
+              <input
+                ref={recipeInputRef}
+                accept=".json,application/json"
+                className="hidden"
+                type="file"
+                onChange={handleRecipeFile}
+              />
+              <Button size="sm" variant="flat" onClick={handleRecipeDownload}>
+                Download Recipe
+              </Button>
+              <Button
+                size="sm"
+                variant="flat"
+                onClick={() => recipeInputRef.current?.click()}
+              >
+                Load Recipe
+              </Button>
+              <Button size="sm" variant="flat" onClick={copyRecipeLink}>
+                Copy Share Link
+              </Button>
+              {isRecipeLinkCopied && (
+                <Chip color="success" size="sm" variant="flat">
+                  Link copied
+                </Chip>
+              )}
+            </div>
+          </div>
+
+          <div className="mt-4">
+            <h4 className="text-sm font-medium text-foreground mb-2">
+              Template Library
+            </h4>
+            <p className="text-xs text-foreground-600 mb-3">
+              Save this template with its column mapping, column rules and
+              validation rules to pick it in Step 1 next time. Saving under an
+              existing name replaces it.
+            </p>
+            <div className="flex flex-wrap items-center gap-2">
+              <Input
+                aria-label="Template name"
+                className="max-w-xs"
+                placeholder={
+                  uploadedFiles
+                    .find((file) => file.isTemplateFile)
+                    ?.name.replace(/\.[^.]+$/, "") ?? "Template name"
+                }
+                size="sm"
+                value={libraryName}
+                onValueChange={(value) => {
+                  setLibraryName(value);
+                  setSavedTemplateName(null);
+                }}
+              />
+              <Button
+                color="primary"
+                isDisabled={
+                  !uploadedFiles.some(
+                    (file) => file.isTemplateFile && file.headers,
+                  )
+                }
+                size="sm"
+                variant="flat"
+                onClick={saveTemplateToLibrary}
+              >
+                Save to Library
+              </Button>
+              {savedTemplateName && (
+                <Chip color="success" size="sm" variant="flat">
+                  Saved as {savedTemplateName}
+                </Chip>
+              )}
+            </div>
+          </div>
+
           <div className="mt-4 p-3 bg-content2 rounded-lg">
             <div className="flex items-center gap-2">
               <svg className="w-4 h-4 text-foreground-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -899,8 +2582,37 @@ export default function Home() {
           </div>
         </div>
 
+        {renderCleaningPreview()}
+
         {/* Clean Data Button */}
         <div className="mt-6">
+          {isProcessing && (
+            <div className="mb-3 p-3 bg-content2 rounded-lg space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-foreground-600">
+                  {batchProgress &&
+                    `File ${batchProgress.file} of ${batchProgress.total}: `}
+                  {cleaningProgress
+                    ? STAGE_LABELS[cleaningProgress.stage]
+                    : "Starting..."}
+                </span>
+                <Button
+                  color="danger"
+                  size="sm"
+                  variant="light"
+                  onClick={cancelCleaning}
+                >
+                  Cancel
+                </Button>
+              </div>
+              <ProgressBar
+                labelPosition="right"
+                value={
+                  cleaningProgress ? getCleaningPercent(cleaningProgress) : 0
+                }
+              />
+            </div>
+          )}
         <Button 
           color="primary"
           className="w-full"
@@ -910,14 +2622,754 @@ export default function Home() {
             {isProcessing ? 'Cleaning Data...' : 'Clean the Data'}
           </Button>
         </div>
+        {renderFuzzyReview()}
       </div>
+      {renderColumnRuleEditor()}
     </>
   );
 
-  const renderStep3 = () => (
-    <>
-      <div className="space-y-4">
-        {/* Results Summary */}
+  const renderFuzzyReview = () => {
+    if (!pendingResult) return null;
+
+    const clusters = pendingResult.fuzzyClusters;
+    const acceptedCount = clusters.length - rejectedClusters.length;
+
+    return (
+      <div className="mt-6 p-4 bg-content2 rounded-lg">
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+          <h4 className="text-sm font-medium text-foreground">
+            Review Likely Duplicates
+          </h4>
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              variant="flat"
+              onClick={() => setRejectedClusters([])}
+            >
+              Accept All
+            </Button>
+            <Button
+              size="sm"
+              variant="flat"
+              onClick={() =>
+                setRejectedClusters(clusters.map((_, index) => index))
+              }
+            >
+              Reject All
+            </Button>
+          </div>
+        </div>
+        <p className="text-xs text-foreground-600 mb-3">
+          {clusters.length} group{clusters.length === 1 ? "" : "s"} of rows look
+          like the same record. Accepted groups keep one row, picked the way
+          exact duplicates are; the rest are removed and listed with the
+          duplicates.
+        </p>
+        <div className="space-y-3 max-h-96 overflow-y-auto">
+          {clusters.map((cluster, index) => {
+            const isAccepted = !rejectedClusters.includes(index);
+
+            return (
+              <div
+                key={index}
+                className={`bg-content1 rounded-lg p-3 ${isAccepted ? "" : "opacity-60"}`}
+              >
+                <div className="flex items-center justify-between gap-2 mb-2">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium text-foreground">
+                      Group {index + 1}
+                    </span>
+                    <Chip size="sm" variant="flat">
+                      {Math.round(cluster.score * 100)}% alike
+                    </Chip>
+                  </div>
+                  <div className="flex gap-1">
+                    <Button
+                      color="success"
+                      size="sm"
+                      variant={isAccepted ? "solid" : "light"}
+                      onClick={() => toggleCluster(index, true)}
+                    >
+                      Accept
+                    </Button>
+                    <Button
+                      color="danger"
+                      size="sm"
+                      variant={isAccepted ? "light" : "solid"}
+                      onClick={() => toggleCluster(index, false)}
+                    >
+                      Reject
+                    </Button>
+                  </div>
+                </div>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-foreground-500">
+                        <th className="font-normal pb-1 pr-3">Row</th>
+                        {pendingResult.table.headers.map((header) => (
+                          <th key={header} className="font-normal pb-1 pr-3">
+                            {header}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {cluster.rows.map((row) => (
+                        <tr key={row} className="border-t border-divider">
+                          <td className="py-1 pr-3 text-foreground-500">
+                            {pendingResult.rowNumbers[row]}
+                          </td>
+                          {pendingResult.table.rows[row].map((cell, column) => (
+                            <td
+                              key={column}
+                              className="py-1 pr-3 text-foreground"
+                            >
+                              {String(cell ?? "")}
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+        <Button
+          className="w-full mt-4"
+          color="primary"
+          onClick={handleFinishReview}
+        >
+          Remove {acceptedCount} Group{acceptedCount === 1 ? "" : "s"} of
+          Duplicates and Continue
+        </Button>
+      </div>
+    );
+  };
+
+  const renderValidationRules = () => {
+    const templateFile = uploadedFiles.find((file) => file.isTemplateFile);
+    const templateSchema = templateFile?.table
+      ? readTemplateSchema(templateFile.table)
+      : null;
+    const columns = Object.entries(cleaningOptions.schema);
+
+    return (
+      <div className="mt-4">
+        <h4 className="text-sm font-medium text-foreground mb-2">
+          Validation Rules
+        </h4>
+        <p className="text-xs text-foreground-600 mb-3">
+          Cleaned values are checked against each column&apos;s type, required
+          flag, pattern, min/max and maximum length. Load the rules from a JSON
+          Schema file, or annotate the template&apos;s second row, e.g.{" "}
+          <code>integer; required; min=0</code>.
+        </p>
+        {columns.length > 0 && (
+          <div className="space-y-1 mb-3">
+            {columns.map(([header, column]) => (
+              <div
+                key={header}
+                className="flex flex-wrap items-center gap-1 rounded-lg bg-content2 px-2 py-1"
+              >
+                <span className="text-sm font-medium mr-1">{header}</span>
+                {describeColumnSchema(column).map((rule) => (
+                  <Chip key={rule} size="sm" variant="flat">
+                    {rule}
+                  </Chip>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+        <div className="flex flex-wrap gap-2">
+          <input
+            ref={schemaInputRef}
+            accept=".json,application/json"
+            className="hidden"
+            type="file"
+            onChange={handleSchemaFile}
+          />
+          <Button
+            size="sm"
+            variant="flat"
+            onClick={() => schemaInputRef.current?.click()}
+          >
+            Load JSON Schema
+          </Button>
+          {templateSchema && (
+            <Button
+              color="primary"
+              size="sm"
+              variant="flat"
+              onClick={() => setSchema(templateSchema)}
+            >
+              Use the template&apos;s annotated row (
+              {Object.keys(templateSchema).length} columns)
+            </Button>
+          )}
+          {columns.length > 0 && (
+            <Button
+              color="danger"
+              size="sm"
+              variant="light"
+              onClick={() => setSchema({})}
+            >
+              Clear rules
+            </Button>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  const renderColumnRuleEditor = () => {
+    const column = ruleColumn;
+    const rule = column ? cleaningOptions.columnRules[column] : undefined;
+    const dateOutput = rule?.dateOutput ?? {
+      calendar: cleaningOptions.dateCalendar,
+      format: cleaningOptions.dateFormat,
+    };
+
+    return (
+      <Modal
+        isOpen={column !== null}
+        scrollBehavior="inside"
+        size="2xl"
+        onOpenChange={(isOpen) => !isOpen && setRuleColumn(null)}
+      >
+        <ModalContent>
+          {(onClose) =>
+            column && (
+              <>
+                <ModalHeader className="flex flex-col gap-1">
+                  Cleaning rules for &quot;{column}&quot;
+                  <span className="text-xs font-normal text-foreground-500">
+                    Steps left on Default follow the global options. Row steps
+                    always apply to whole rows.
+                  </span>
+                </ModalHeader>
+                <ModalBody>
+                  <div className="space-y-2">
+                    {cleaningOptions.steps
+                      .filter((step) => COLUMN_STEPS.includes(step.id))
+                      .map((step) => {
+                        const override = rule?.steps[step.id];
+
+                        return (
+                          <div
+                            key={step.id}
+                            className="flex flex-wrap items-center justify-between gap-2"
+                          >
+                            <span className="text-sm">
+                              {CLEANING_STEP_LABELS[step.id]}
+                            </span>
+                            <RadioGroup
+                              aria-label={`${CLEANING_STEP_LABELS[step.id]} for ${column}`}
+                              orientation="horizontal"
+                              size="sm"
+                              value={
+                                override === undefined
+                                  ? "default"
+                                  : override
+                                    ? "on"
+                                    : "off"
+                              }
+                              onValueChange={(value) =>
+                                setColumnStep(
+                                  column,
+                                  step.id,
+                                  value === "default" ? null : value === "on",
+                                )
+                              }
+                            >
+                              <Radio value="default">
+                                Default ({step.enabled ? "On" : "Off"})
+                              </Radio>
+                              <Radio value="on">On</Radio>
+                              <Radio value="off">Off</Radio>
+                            </RadioGroup>
+                          </div>
+                        );
+                      })}
+                  </div>
+
+                  {isStepEnabledForColumn(
+                    cleaningOptions,
+                    "removeSpecialCharacters",
+                    column,
+                  ) && (
+                    <Input
+                      label="Extra characters to keep"
+                      placeholder="e.g. @.-+"
+                      size="sm"
+                      value={rule?.characterAllowlist ?? ""}
+                      onValueChange={(value) =>
+                        updateColumnRule(column, (prev) => ({
+                          ...prev,
+                          characterAllowlist: value || undefined,
+                        }))
+                      }
+                    />
+                  )}
+
+                  {isStepEnabledForColumn(
+                    cleaningOptions,
+                    "standardizeDates",
+                    column,
+                  ) && (
+                    <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_auto] items-center gap-2">
+                      <Select
+                        disallowEmptySelection
+                        label="Calendar"
+                        selectedKeys={[dateOutput.calendar]}
+                        size="sm"
+                        onSelectionChange={(keys) => {
+                          const [calendar] = Array.from(keys);
+
+                          updateColumnRule(column, (prev) => ({
+                            ...prev,
+                            dateOutput: {
+                              ...dateOutput,
+                              calendar: calendar as DateCalendar,
+                            },
+                          }));
+                        }}
+                      >
+                        {(
+                          Object.keys(DATE_CALENDAR_LABELS) as DateCalendar[]
+                        ).map((calendar) => (
+                          <SelectItem key={calendar}>
+                            {DATE_CALENDAR_LABELS[calendar]}
+                          </SelectItem>
+                        ))}
+                      </Select>
+                      <Select
+                        disallowEmptySelection
+                        label="Date format"
+                        selectedKeys={[dateOutput.format]}
+                        size="sm"
+                        onSelectionChange={(keys) => {
+                          const [format] = Array.from(keys);
+
+                          updateColumnRule(column, (prev) => ({
+                            ...prev,
+                            dateOutput: {
+                              ...dateOutput,
+                              format: String(format),
+                            },
+                          }));
+                        }}
+                      >
+                        {DATE_FORMATS.map((format) => (
+                          <SelectItem key={format}>{format}</SelectItem>
+                        ))}
+                      </Select>
+                      <Button
+                        isDisabled={!rule?.dateOutput}
+                        size="sm"
+                        variant="light"
+                        onClick={() =>
+                          updateColumnRule(column, (prev) => ({
+                            ...prev,
+                            dateOutput: undefined,
+                          }))
+                        }
+                      >
+                        Use default
+                      </Button>
+                    </div>
+                  )}
+
+                  {renderValueClusters(column, rule?.valueMap ?? {})}
+                </ModalBody>
+                <ModalFooter>
+                  <Button
+                    color="danger"
+                    isDisabled={!rule}
+                    variant="light"
+                    onClick={() => resetColumnRule(column)}
+                  >
+                    Reset to defaults
+                  </Button>
+                  <Button color="primary" onClick={onClose}>
+                    Done
+                  </Button>
+                </ModalFooter>
+              </>
+            )
+          }
+        </ModalContent>
+      </Modal>
+    );
+  };
+
+  const renderCleaningPreview = () => {
+    if (!cleaningPreview) return null;
+
+    const pageCount = Math.max(
+      Math.ceil(cleaningPreview.rows.length / PREVIEW_PAGE_SIZE),
+      1,
+    );
+    const page = Math.min(previewPage, pageCount);
+    const rows = cleaningPreview.rows.slice(
+      (page - 1) * PREVIEW_PAGE_SIZE,
+      page * PREVIEW_PAGE_SIZE,
+    );
+    const changedCells = cleaningPreview.rows.reduce(
+      (total, row) => total + row.changed.filter(Boolean).length,
+      0,
+    );
+
+    return (
+      <div className="mt-4 p-4 bg-content2 rounded-lg">
+        <h4 className="font-medium text-foreground mb-1">Before and After</h4>
+        <p className="text-xs text-foreground-500 mb-3">
+          The first {cleaningPreview.sampleRows} rows of{" "}
+          {uploadedFiles.find((file) => file.isDataFile)?.name}, cleaned with
+          the options above: {changedCells} cell{changedCells === 1 ? "" : "s"}{" "}
+          changed and {cleaningPreview.rowsRemoved} row
+          {cleaningPreview.rowsRemoved === 1 ? "" : "s"} removed. Changed cells
+          are highlighted above their original value.
+        </p>
+        {rows.length === 0 ? (
+          <p className="text-sm text-foreground-500">
+            No rows are left after cleaning the sample.
+          </p>
+        ) : (
+          <div className="bg-content1 rounded-lg p-3 overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-foreground-500">
+                  <th className="font-normal pb-1 pr-3">Row</th>
+                  {cleaningPreview.headers.map((header) => (
+                    <th key={header} className="font-normal pb-1 pr-3">
+                      {header}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => (
+                  <tr
+                    key={row.rowNumber}
+                    className="border-t border-divider align-top"
+                  >
+                    <td className="py-1 pr-3 text-foreground-500">
+                      {row.rowNumber}
+                    </td>
+                    {row.cells.map((cell, column) => (
+                      <td
+                        key={column}
+                        className={`py-1 pr-3 ${row.changed[column] ? "bg-warning-50" : ""}`}
+                      >
+                        <span className="text-foreground">
+                          {String(cell ?? "")}
+                        </span>
+                        {row.changed[column] && (
+                          <span className="block text-xs text-foreground-500 line-through">
+                            &quot;{String(row.original[column] ?? "")}&quot;
+                          </span>
+                        )}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+        {pageCount > 1 && (
+          <Pagination
+            className="mt-3"
+            page={page}
+            size="sm"
+            total={pageCount}
+            onChange={setPreviewPage}
+          />
+        )}
+      </div>
+    );
+  };
+
+  const renderColumnProfiles = (matches: ReturnType<typeof matchColumns>) => (
+    <div className="mt-2 bg-content1 rounded-lg p-3 overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-foreground-500 align-bottom">
+            <th className="font-normal pb-1 pr-3">Column</th>
+            <th className="font-normal pb-1 pr-3">Type</th>
+            <th className="font-normal pb-1 pr-3 text-right">Empty</th>
+            <th className="font-normal pb-1 pr-3 text-right">Distinct</th>
+            <th className="font-normal pb-1 pr-3">Top values</th>
+            <th className="font-normal pb-1 pr-3">Min – Max</th>
+            <th className="font-normal pb-1 pr-3">Lengths</th>
+            <th className="font-normal pb-1">Malformed</th>
+          </tr>
+        </thead>
+        <tbody>
+          {columnProfiles.map((profile, index) => {
+            const match = matches.find((match) => match.index === index);
+
+            return (
+              <tr key={index} className="border-t border-divider align-top">
+                <td className="py-1 pr-3">
+                  <span className="font-medium text-foreground">
+                    {profile.header}
+                  </span>
+                  <span
+                    className={`block text-xs ${match ? "text-success" : "text-danger"}`}
+                  >
+                    {match
+                      ? match.header === profile.header
+                        ? "Kept"
+                        : `Kept as ${match.header}`
+                      : "Removed"}
+                  </span>
+                </td>
+                <td className="py-1 pr-3">
+                  {COLUMN_TYPE_LABELS[profile.type]}
+                </td>
+                <td className="py-1 pr-3 text-right">
+                  {profile.rowCount > 0
+                    ? Math.round((profile.emptyCount / profile.rowCount) * 100)
+                    : 0}
+                  %
+                </td>
+                <td className="py-1 pr-3 text-right">
+                  {profile.distinctCount}
+                </td>
+                <td className="py-1 pr-3 text-xs">
+                  {profile.topValues.map(({ value, count }) => (
+                    <span key={value} className="block whitespace-nowrap">
+                      &quot;{value}&quot;{" "}
+                      <span className="text-foreground-500">×{count}</span>
+                    </span>
+                  ))}
+                </td>
+                <td className="py-1 pr-3 text-xs">
+                  {profile.min === null
+                    ? "—"
+                    : `${profile.min} – ${profile.max}`}
+                </td>
+                <td className="py-1 pr-3 text-xs whitespace-nowrap">
+                  {profile.lengths
+                    .filter(({ count }) => count > 0)
+                    .map(({ min, max, count }) => (
+                      <span key={min} className="block">
+                        {max === null ? `${min}+` : `${min}–${max}`}: {count}
+                      </span>
+                    ))}
+                </td>
+                <td className="py-1 text-xs">
+                  {profile.malformedCount === 0 ? (
+                    "—"
+                  ) : (
+                    <>
+                      <span className="text-warning">
+                        {profile.malformedCount}
+                      </span>
+                      {profile.malformedSamples.map((value) => (
+                        <span key={value} className="block">
+                          &quot;{value}&quot;
+                        </span>
+                      ))}
+                    </>
+                  )}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+
+  const renderValueClusters = (
+    column: string,
+    valueMap: Record<string, string>,
+  ) => {
+    const clusters = findValueClusters(
+      ruleColumnValues.filter(
+        ({ value }) => mapValue(value, valueMap) === value,
+      ),
+      valueClusterMethod,
+    );
+    const mapped = Object.entries(valueMap);
+
+    return (
+      <>
+        <Divider />
+        <div className="space-y-3">
+          <div>
+            <h4 className="text-sm font-medium text-foreground">Values</h4>
+            <p className="text-xs text-foreground-600">
+              {ruleColumnValues.length} distinct value
+              {ruleColumnValues.length === 1 ? "" : "s"} in the data. Merged
+              values are replaced by their canonical value before any step runs.
+            </p>
+          </div>
+
+          <Select
+            disallowEmptySelection
+            label="Cluster similar values by"
+            selectedKeys={[valueClusterMethod]}
+            size="sm"
+            onSelectionChange={(keys) => {
+              const [method] = Array.from(keys);
+
+              setValueClusterMethod(method as ValueClusterMethod);
+            }}
+          >
+            {(
+              Object.keys(VALUE_CLUSTER_METHOD_LABELS) as ValueClusterMethod[]
+            ).map((method) => (
+              <SelectItem key={method}>
+                {VALUE_CLUSTER_METHOD_LABELS[method]}
+              </SelectItem>
+            ))}
+          </Select>
+
+          {clusters.length === 0 ? (
+            <p className="text-xs text-foreground-500">
+              No clusters of similar values found.
+            </p>
+          ) : (
+            clusters.map((cluster) => {
+              const key = cluster.canonical;
+              const target = clusterTargets[key] ?? cluster.canonical;
+
+              return (
+                <div key={key} className="bg-content2 rounded-lg p-2 space-y-2">
+                  <div className="flex flex-wrap gap-1">
+                    {cluster.values.map(({ value, count }) => (
+                      <Chip key={value} size="sm" variant="flat">
+                        &quot;{value}&quot; ({count})
+                      </Chip>
+                    ))}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Input
+                      aria-label="Canonical value"
+                      size="sm"
+                      value={target}
+                      onValueChange={(value) =>
+                        setClusterTargets((prev) => ({ ...prev, [key]: value }))
+                      }
+                    />
+                    <Button
+                      color="primary"
+                      isDisabled={target.trim() === ""}
+                      size="sm"
+                      variant="flat"
+                      onClick={() =>
+                        mergeColumnValues(
+                          column,
+                          cluster.values.map(({ value }) => value),
+                          target,
+                        )
+                      }
+                    >
+                      Merge
+                    </Button>
+                  </div>
+                </div>
+              );
+            })
+          )}
+
+          {ruleColumnValues.length > 0 && (
+            <div className="space-y-2">
+              <CheckboxGroup
+                className="max-h-48 overflow-y-auto"
+                label="Pick values to merge by hand"
+                size="sm"
+                value={selectedValues}
+                onValueChange={setSelectedValues}
+              >
+                {ruleColumnValues
+                  .slice(0, FACET_VALUES_SHOWN)
+                  .map(({ value, count }) => (
+                    <Checkbox key={value} value={value}>
+                      &quot;{value}&quot;
+                      <span className="text-foreground-500">
+                        {" "}
+                        ({count})
+                        {mapValue(value, valueMap) !== value &&
+                          ` → "${mapValue(value, valueMap)}"`}
+                      </span>
+                    </Checkbox>
+                  ))}
+              </CheckboxGroup>
+              {ruleColumnValues.length > FACET_VALUES_SHOWN && (
+                <p className="text-xs text-foreground-500">
+                  Showing the {FACET_VALUES_SHOWN} most common values.
+                </p>
+              )}
+              <div className="flex items-center gap-2">
+                <Input
+                  aria-label="Merge selected values into"
+                  placeholder="Canonical value"
+                  size="sm"
+                  value={mergeTarget}
+                  onValueChange={setMergeTarget}
+                />
+                <Button
+                  color="primary"
+                  isDisabled={
+                    selectedValues.length === 0 || mergeTarget.trim() === ""
+                  }
+                  size="sm"
+                  variant="flat"
+                  onClick={() => {
+                    mergeColumnValues(column, selectedValues, mergeTarget);
+                    setSelectedValues([]);
+                    setMergeTarget("");
+                  }}
+                >
+                  Merge Selected
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {mapped.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {mapped.map(([from, to]) => (
+                <Chip
+                  key={from}
+                  color="primary"
+                  size="sm"
+                  variant="flat"
+                  onClose={() => unmapColumnValue(column, from)}
+                >
+                  &quot;{from}&quot; → &quot;{to}&quot;
+                </Chip>
+              ))}
+            </div>
+          )}
+        </div>
+      </>
+    );
+  };
+
+  const renderBatchResults = () => {
+    const cleaned = batchResults.flatMap((entry) =>
+      entry.result ? [entry.result] : [],
+    );
+    const totalRows = cleaned.reduce(
+      (total, result) => total + result.totalRowsCleaned,
+      0,
+    );
+    const totalRejected = cleaned.reduce(
+      (total, result) => total + result.rejectedRows,
+      0,
+    );
+
+    return (
+      <>
         <div className="bg-success/10 rounded-lg p-4">
           <div className="flex items-center gap-2 mb-3">
             <div className="w-8 h-8 bg-success/20 rounded-full flex items-center justify-center">
@@ -925,55 +3377,562 @@ export default function Home() {
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M5 13l4 4L19 7"></path>
               </svg>
             </div>
-            <h4 className="font-medium text-success">Data Cleaning Complete!</h4>
+            <h4 className="font-medium text-success">
+              Batch Cleaning Complete!
+            </h4>
           </div>
           <div className="grid grid-cols-3 gap-4 text-center">
             <div className="bg-content1 rounded-lg p-3">
-              <div className="text-2xl font-bold text-success">{cleaningResult?.totalRowsCleaned}</div>
-              <div className="text-sm text-foreground-600">Rows Processed</div>
+              <div className="text-2xl font-bold text-success">
+                {cleaned.length}/{batchResults.length}
+              </div>
+              <div className="text-sm text-foreground-600">Files Cleaned</div>
             </div>
             <div className="bg-content1 rounded-lg p-3">
-              <div className="text-2xl font-bold text-primary">{cleaningResult?.columnsDeleted}</div>
-              <div className="text-sm text-foreground-600">Columns Removed</div>
+              <div className="text-2xl font-bold text-primary">{totalRows}</div>
+              <div className="text-sm text-foreground-600">Rows Processed</div>
             </div>
             <div className="bg-content1 rounded-lg p-3">
-              <div className="text-2xl font-bold text-warning">{cleaningResult?.duplicateRowsRemoved}</div>
-              <div className="text-sm text-foreground-600">Duplicates Removed</div>
+              <div className="text-2xl font-bold text-warning">
+                {totalRejected}
+              </div>
+              <div className="text-sm text-foreground-600">Rows Rejected</div>
             </div>
           </div>
+          <div className="mt-4 bg-content1 rounded-lg p-3 overflow-x-auto">
+            <h5 className="text-sm font-medium text-foreground mb-2">Files</h5>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-foreground-500">
+                  <th className="font-normal pb-1">File</th>
+                  <th className="font-normal pb-1 text-right">Rows</th>
+                  <th className="font-normal pb-1 text-right">Duplicates</th>
+                  <th className="font-normal pb-1 text-right">
+                    Columns Removed
+                  </th>
+                  <th className="font-normal pb-1 text-right">Violations</th>
+                  <th className="font-normal pb-1 text-right">Rejected</th>
+                  <th className="font-normal pb-1 text-right">Download</th>
+                </tr>
+              </thead>
+              <tbody>
+                {batchResults.map((entry) => (
+                  <tr key={entry.fileId} className="border-t border-divider">
+                    <td className="py-1 text-foreground">
+                      {entry.fileName}
+                      {entry.result &&
+                        entry.result.missingColumns.length > 0 && (
+                          <span className="block text-xs text-warning">
+                            No source for{" "}
+                            {entry.result.missingColumns.join(", ")}
+                          </span>
+                        )}
+                    </td>
+                    {entry.result ? (
+                      <>
+                        <td className="py-1 text-right">
+                          {entry.result.totalRowsCleaned}
+                        </td>
+                        <td className="py-1 text-right">
+                          {entry.result.duplicateRowsRemoved}
+                        </td>
+                        <td className="py-1 text-right">
+                          {entry.result.columnsDeleted}
+                        </td>
+                        <td className="py-1 text-right">
+                          {entry.result.violationCount}
+                        </td>
+                        <td className="py-1 text-right">
+                          {entry.result.rejectedRows}
+                        </td>
+                        <td className="py-1 text-right whitespace-nowrap">
+                          <Button
+                            className="h-6 px-2 min-w-0"
+                            size="sm"
+                            variant="light"
+                            onClick={() =>
+                              handleDownloadBatchFile(entry, "csv")
+                            }
+                          >
+                            CSV
+                          </Button>
+                          <Button
+                            className="h-6 px-2 min-w-0"
+                            isDisabled={"csv" in entry.result}
+                            size="sm"
+                            variant="light"
+                            onClick={() =>
+                              handleDownloadBatchFile(entry, "xlsx")
+                            }
+                          >
+                            Excel
+                          </Button>
+                          {entry.result.rejectedRows > 0 && (
+                            <Button
+                              className="h-6 px-2 min-w-0"
+                              color="danger"
+                              size="sm"
+                              variant="light"
+                              onClick={() => handleDownloadBatchRejects(entry)}
+                            >
+                              Rejects
+                            </Button>
+                          )}
+                        </td>
+                      </>
+                    ) : (
+                      <td className="py-1 text-right text-danger" colSpan={6}>
+                        Failed: {entry.error}
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
         </div>
 
-        {/* Download Options */}
         <div className="space-y-3">
-          <h4 className="font-medium text-foreground">Download Your Cleaned Data</h4>
-          <p className="text-sm text-foreground-600">Choose your preferred format to download the processed data.</p>
+          <h4 className="font-medium text-foreground">Download All Files</h4>
+          <p className="text-sm text-foreground-600">
+            The ZIP holds one cleaned file per data file, named after it, plus a
+            rejects file for each file with rows that broke the validation rules
+            and a duplicates file for each file with removed duplicates. Files
+            cleaned in chunks because of their size are always CSV.
+          </p>
           <div className="grid grid-cols-2 gap-3">
-          <Button 
-            color="default" 
-            className="flex-1 font-medium py-3"
-            onClick={() => handleDownload('csv')}
-              startContent={
-                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z"></path>
-                </svg>
-              }
+            <Button
+              className="font-medium py-3"
+              color="default"
+              isDisabled={cleaned.length === 0}
+              onClick={() => handleDownloadBatchZip("csv")}
             >
-              Download CSV
+              Download ZIP (CSV)
             </Button>
-          <Button 
-            color="primary" 
-            className="flex-1 font-medium py-3"
-            onClick={() => handleDownload('xlsx')}
-              startContent={
-                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 17v-2m3 2v-4m3 4v-6m2 10H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z"></path>
-                </svg>
-              }
+            <Button
+              className="font-medium py-3"
+              color="primary"
+              isDisabled={cleaned.length === 0}
+              onClick={() => handleDownloadBatchZip("xlsx")}
             >
-              Download Excel
+              Download ZIP (Excel)
             </Button>
           </div>
         </div>
+      </>
+    );
+  };
+
+  const renderStep3 = () => (
+    <>
+      <div className="space-y-4">
+        {batchResults.length > 0 ? (
+          renderBatchResults()
+        ) : (
+          <>
+            {/* Results Summary */}
+            <div className="bg-success/10 rounded-lg p-4">
+              <div className="flex items-center gap-2 mb-3">
+                <div className="w-8 h-8 bg-success/20 rounded-full flex items-center justify-center">
+                  <svg
+                    className="w-5 h-5 text-success"
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                  >
+                    <path
+                      d="M5 13l4 4L19 7"
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth="2"
+                    />
+                  </svg>
+                </div>
+                <h4 className="font-medium text-success">
+                  Data Cleaning Complete!
+                </h4>
+              </div>
+              <div className="grid grid-cols-3 gap-4 text-center">
+                <div className="bg-content1 rounded-lg p-3">
+                  <div className="text-2xl font-bold text-success">
+                    {cleaningResult?.totalRowsCleaned}
+                  </div>
+                  <div className="text-sm text-foreground-600">
+                    Rows Processed
+                  </div>
+                </div>
+                <div className="bg-content1 rounded-lg p-3">
+                  <div className="text-2xl font-bold text-primary">
+                    {cleaningResult?.columnsDeleted}
+                  </div>
+                  <div className="text-sm text-foreground-600">
+                    Columns Removed
+                  </div>
+                </div>
+                <div className="bg-content1 rounded-lg p-3">
+                  <div className="text-2xl font-bold text-warning">
+                    {cleaningResult?.duplicateRowsRemoved}
+                  </div>
+                  <div className="text-sm text-foreground-600">
+                    Duplicates Removed
+                  </div>
+                </div>
+              </div>
+              {cleaningResult && cleaningResult.missingColumns.length > 0 && (
+                <div className="mt-4 bg-content1 rounded-lg p-3">
+                  <h5 className="text-sm font-medium text-foreground mb-2">
+                    Template Columns Without a Source (
+                    {cleaningResult.missingColumns.length})
+                  </h5>
+                  <div className="flex flex-wrap gap-1">
+                    {cleaningResult.missingColumns.map((column) => (
+                      <Chip
+                        key={column}
+                        color="warning"
+                        size="sm"
+                        variant="flat"
+                      >
+                        {column}
+                      </Chip>
+                    ))}
+                  </div>
+                  <p className="text-xs text-foreground-500 mt-2">
+                    {("csv" in cleaningResult
+                      ? cleaningResult.headers
+                      : cleaningResult.table.headers
+                    ).includes(cleaningResult.missingColumns[0])
+                      ? "These columns were written with the fill value."
+                      : "These columns were left out of the output."}
+                  </p>
+                </div>
+              )}
+              {cleaningResult &&
+                cleaningResult.missingDuplicateKeys.length > 0 && (
+                  <div className="mt-4 bg-content1 rounded-lg p-3">
+                    <h5 className="text-sm font-medium text-foreground mb-2">
+                      Duplicate Keys Not Compared (
+                      {cleaningResult.missingDuplicateKeys.length})
+                    </h5>
+                    <div className="flex flex-wrap gap-1">
+                      {cleaningResult.missingDuplicateKeys.map((column) => (
+                        <Chip
+                          key={column}
+                          color="warning"
+                          size="sm"
+                          variant="flat"
+                        >
+                          {column}
+                        </Chip>
+                      ))}
+                    </div>
+                    <p className="text-xs text-foreground-500 mt-2">
+                      {cleaningResult.missingDuplicateKeys.length ===
+                      cleaningOptions.duplicateKeys.length
+                        ? "None of the key columns have a source or they were all removed as empty, so no rows were removed as duplicates."
+                        : "These columns have no source or were removed as empty, so duplicates were matched on the other keys."}
+                    </p>
+                  </div>
+                )}
+              {cleaningResult &&
+                "csv" in cleaningResult &&
+                isStepEnabled(cleaningOptions, "removeDuplicates") &&
+                cleaningOptions.fuzzyColumns.length > 0 && (
+                  <p className="mt-4 text-xs text-foreground-500">
+                    This file was cleaned in chunks because of its size, so it
+                    was not searched for likely duplicates. Only exact
+                    duplicates were removed.
+                  </p>
+                )}
+              {cleaningResult &&
+                Object.keys(cleaningOptions.schema).length > 0 && (
+                  <div className="mt-4 bg-content1 rounded-lg p-3 overflow-x-auto">
+                    <div className="flex items-center justify-between gap-2 mb-2">
+                      <h5 className="text-sm font-medium text-foreground">
+                        Validation{" "}
+                        {cleaningResult.violationCount === 0
+                          ? "- every value passed"
+                          : `(${cleaningResult.violationCount} ${cleaningResult.violationCount === 1 ? "violation" : "violations"})`}
+                      </h5>
+                      {cleaningResult.violationCount > 0 && (
+                        <Button
+                          size="sm"
+                          variant="flat"
+                          onClick={handleDownloadViolations}
+                        >
+                          Download violations
+                        </Button>
+                      )}
+                    </div>
+                    {cleaningResult.violationCount > 0 && (
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="text-left text-foreground-500">
+                            <th className="font-normal pb-1">Row</th>
+                            <th className="font-normal pb-1">Column</th>
+                            <th className="font-normal pb-1">Value</th>
+                            <th className="font-normal pb-1">Problem</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {cleaningResult.violations
+                            .slice(0, VIOLATIONS_SHOWN)
+                            .map((violation, idx) => (
+                              <tr key={idx} className="border-t border-divider">
+                                <td className="py-1">{violation.row}</td>
+                                <td className="py-1">
+                                  {violation.column}{" "}
+                                  <span className="text-foreground-400">
+                                    (#{violation.columnNumber})
+                                  </span>
+                                </td>
+                                <td className="py-1 font-mono">
+                                  {violation.value}
+                                </td>
+                                <td className="py-1 text-danger">
+                                  {violation.message}
+                                </td>
+                              </tr>
+                            ))}
+                        </tbody>
+                      </table>
+                    )}
+                    {cleaningResult.violationCount > VIOLATIONS_SHOWN && (
+                      <p className="text-xs text-foreground-500 mt-2">
+                        Showing the first {VIOLATIONS_SHOWN}. The download holds
+                        the first {cleaningResult.violations.length}.
+                      </p>
+                    )}
+                  </div>
+                )}
+              {cleaningResult && cleaningResult.steps.length > 0 && (
+                <div className="mt-4 bg-content1 rounded-lg p-3 overflow-x-auto">
+                  <h5 className="text-sm font-medium text-foreground mb-2">
+                    Cleaning Steps
+                  </h5>
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-foreground-500">
+                        <th className="font-normal pb-1">Step</th>
+                        <th className="font-normal pb-1 text-right">Rows In</th>
+                        <th className="font-normal pb-1 text-right">
+                          Rows Removed
+                        </th>
+                        <th className="font-normal pb-1 text-right">
+                          Cells Changed
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {cleaningResult.steps.map((step) => (
+                        <tr key={step.id} className="border-t border-divider">
+                          <td className="py-1 text-foreground">
+                            {CLEANING_STEP_LABELS[step.id]}
+                            {step.id === "removeEmptyColumns" && (
+                              <span className="text-foreground-500">
+                                {" "}
+                                ({cleaningResult.emptyColumnsRemoved} columns)
+                              </span>
+                            )}
+                          </td>
+                          <td className="py-1 text-right">{step.rowsIn}</td>
+                          <td className="py-1 text-right">
+                            {step.rowsRemoved}
+                          </td>
+                          <td className="py-1 text-right">
+                            {step.cellsChanged}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+              {cleaningResult && cleaningResult.dateColumns.length > 0 && (
+                <div className="mt-4 space-y-2">
+                  <h5 className="text-sm font-medium text-foreground">
+                    Date Columns
+                  </h5>
+                  {cleaningResult.dateColumns.map((summary) => (
+                    <div
+                      key={summary.column}
+                      className="bg-content1 rounded-lg p-3 space-y-2"
+                    >
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="text-sm font-medium text-foreground">
+                          {summary.column}
+                        </span>
+                        {(Object.keys(summary.formats) as DateInputFormat[])
+                          .filter((format) => summary.formats[format] > 0)
+                          .map((format) => (
+                            <Chip key={format} size="sm" variant="flat">
+                              {DATE_INPUT_FORMAT_LABELS[format]}:{" "}
+                              {summary.formats[format]}
+                            </Chip>
+                          ))}
+                        {summary.dayFirst !== null && (
+                          <Chip color="primary" size="sm" variant="flat">
+                            Ambiguous read{" "}
+                            {summary.dayFirst ? "day first" : "month first"}
+                          </Chip>
+                        )}
+                      </div>
+                      {summary.ambiguous > 0 && (
+                        <p className="text-xs text-warning">
+                          {summary.ambiguous} ambiguous{" "}
+                          {summary.ambiguous === 1
+                            ? "value was"
+                            : "values were"}{" "}
+                          left unchanged for review, e.g.{" "}
+                          {summary.ambiguousSamples.join(", ")}
+                        </p>
+                      )}
+                      {summary.failed > 0 && (
+                        <p className="text-xs text-danger">
+                          {summary.failed}{" "}
+                          {summary.failed === 1 ? "value" : "values"} could not
+                          be parsed, e.g. {summary.failedSamples.join(", ")}
+                        </p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* Download Options */}
+            <div className="space-y-3">
+              <h4 className="font-medium text-foreground">
+                Download Your Cleaned Data
+              </h4>
+              <p className="text-sm text-foreground-600">
+                {cleaningResult && "csv" in cleaningResult
+                  ? "This file was cleaned in chunks because of its size, so it can only be downloaded as CSV."
+                  : "Choose your preferred format to download the processed data."}
+              </p>
+              <div className="grid grid-cols-2 gap-3">
+                <Button
+                  className="flex-1 font-medium py-3"
+                  color="default"
+                  startContent={
+                    <svg
+                      className="w-5 h-5"
+                      fill="none"
+                      stroke="currentColor"
+                      viewBox="0 0 24 24"
+                    >
+                      <path
+                        d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z"
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth="2"
+                      />
+                    </svg>
+                  }
+                  onClick={() => handleDownload("csv")}
+                >
+                  Download CSV
+                </Button>
+                <Button
+                  className="flex-1 font-medium py-3"
+                  color="primary"
+                  isDisabled={!!cleaningResult && "csv" in cleaningResult}
+                  startContent={
+                    <svg
+                      className="w-5 h-5"
+                      fill="none"
+                      stroke="currentColor"
+                      viewBox="0 0 24 24"
+                    >
+                      <path
+                        d="M9 17v-2m3 2v-4m3 4v-6m2 10H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z"
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth="2"
+                      />
+                    </svg>
+                  }
+                  onClick={() => handleDownload("xlsx")}
+                >
+                  Download Excel
+                </Button>
+              </div>
+              {cleaningResult && cleaningResult.rejectedRows > 0 && (
+                <div className="p-3 bg-danger-50 rounded-lg space-y-2">
+                  <p className="text-sm text-danger">
+                    {cleaningResult.rejectedRows}{" "}
+                    {cleaningResult.rejectedRows === 1
+                      ? "row breaks"
+                      : "rows break"}{" "}
+                    the validation rules and{" "}
+                    {cleaningResult.rejectedRows === 1 ? "was" : "were"} left
+                    out of the cleaned file. The rejects file holds each
+                    original row, its row number in the data file and a reason
+                    column per failure, so it can be fixed and resubmitted.
+                  </p>
+                  {cleaningResult.rejects.rows.length <
+                    cleaningResult.rejectedRows && (
+                    <p className="text-xs text-danger">
+                      Only the first {cleaningResult.rejects.rows.length}{" "}
+                      rejected rows are kept for large files.
+                    </p>
+                  )}
+                  <div className="grid grid-cols-2 gap-3">
+                    <Button
+                      color="danger"
+                      variant="flat"
+                      onClick={() => handleDownloadRejects("csv")}
+                    >
+                      Download Rejects (CSV)
+                    </Button>
+                    <Button
+                      color="danger"
+                      variant="flat"
+                      onClick={() => handleDownloadRejects("xlsx")}
+                    >
+                      Download Rejects (Excel)
+                    </Button>
+                  </div>
+                </div>
+              )}
+              {cleaningResult && cleaningResult.duplicates.rows.length > 0 && (
+                <div className="p-3 bg-warning-50 rounded-lg space-y-2">
+                  <p className="text-sm text-warning-700">
+                    {cleaningResult.duplicateRowsRemoved}{" "}
+                    {cleaningResult.duplicateRowsRemoved === 1
+                      ? "duplicate was"
+                      : "duplicates were"}{" "}
+                    removed. The duplicates file lists each one as it was
+                    compared, with its row number and the number of the row that
+                    was kept instead.
+                  </p>
+                  {cleaningResult.duplicates.rows.length <
+                    cleaningResult.duplicateRowsRemoved && (
+                    <p className="text-xs text-warning-700">
+                      Only the first {cleaningResult.duplicates.rows.length}{" "}
+                      removed duplicates are kept for large files.
+                    </p>
+                  )}
+                  <div className="grid grid-cols-2 gap-3">
+                    <Button
+                      color="warning"
+                      variant="flat"
+                      onClick={() => handleDownloadDuplicates("csv")}
+                    >
+                      Download Duplicates (CSV)
+                    </Button>
+                    <Button
+                      color="warning"
+                      variant="flat"
+                      onClick={() => handleDownloadDuplicates("xlsx")}
+                    >
+                      Download Duplicates (Excel)
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
+          </>
+        )}
 
         {/* Start Over Button */}
         <div className="mt-6">
@@ -986,29 +3945,7 @@ export default function Home() {
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"></path>
             </svg>
           }
-          onClick={() => {
-            setCurrentStep(1);
-            setUploadedFiles([]);
-            setCleaningResult(null);
-            setError(null);
-            setIsProcessing(false);
-            setAutoAdvanceCountdown(null);
-            setCleaningOptions({
-              removeDuplicates: false,
-              removeEmptyRows: false,
-              removeEmptyColumns: false,
-              trimWhitespace: false,
-              normalizeText: false,
-              removeSpecialCharacters: false,
-              standardizeDates: false,
-              convertToUppercase: false,
-              convertToLowercase: false,
-              removeLeadingZeros: false
-            });
-            clearAllFiles();
-            // Clear all localStorage cache
-            localStorage.clear();
-          }}
+          onClick={resetSession}
         >
           Start Over
         </Button>
@@ -1052,6 +3989,24 @@ export default function Home() {
               <span className="text-foreground text-sm">{currentStep}/3</span>
             </div>
           </div>
+          {uploadedFiles.length > 0 && (
+            <div className="flex items-center justify-center gap-2 mt-3">
+              <span className="text-xs text-foreground/70">
+                {restoredAt !== null
+                  ? `Restored your session from ${new Date(restoredAt).toLocaleString()}`
+                  : "Your session is saved in this browser"}
+              </span>
+              <Button
+                className="h-6 px-2 text-xs min-w-0"
+                color="danger"
+                size="sm"
+                variant="light"
+                onClick={resetSession}
+              >
+                Discard session
+              </Button>
+            </div>
+          )}
         </div>
         
         <div className="space-y-6">
@@ -0,0 +1,7 @@
+import { Cell } from "./types";
+
+/**
+ * Whether a cell is empty or holds only whitespace.
+ */
+export const isEmptyCell = (cell: Cell) =>
+  cell === null || String(cell).trim() === "";
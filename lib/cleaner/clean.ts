@@ -0,0 +1,749 @@
+import { isEmptyCell } from "./cells";
+import {
+  DEFAULT_DATE_FORMAT,
+  DateColumnPlan,
+  DateColumnStats,
+  addDateStats,
+  createDateStats,
+  formatDate,
+  planDateColumn,
+  resolveDate,
+  toCalendar,
+} from "./dates";
+import { createDuplicateKey, pickSurvivor } from "./duplicates";
+import { DEFAULT_FUZZY_THRESHOLD, findFuzzyClusters } from "./fuzzy";
+import { createStageReporter } from "./progress";
+import {
+  DEFAULT_CLEANING_STEPS,
+  isStepEnabled,
+  isStepEnabledForColumn,
+  isStepUsed,
+} from "./steps";
+import { createCharacterFilter, normalizePersian, normalizeText } from "./text";
+import {
+  Cell,
+  CleaningOptions,
+  CleaningResult,
+  CleaningStats,
+  CleaningStepId,
+  DateColumnSummary,
+  ProgressCallback,
+  StepStats,
+  Table,
+  Violation,
+} from "./types";
+import { MAX_VIOLATIONS, createValidator } from "./validate";
+import { mapValue } from "./values";
+
+export const DEFAULT_CLEANING_OPTIONS: CleaningOptions = {
+  columnMapping: {},
+  schema: {},
+  emitMissingColumns: false,
+  missingColumnValue: "",
+  sourceFileColumn: false,
+  steps: DEFAULT_CLEANING_STEPS,
+  columnRules: {},
+  duplicateKeys: [],
+  duplicateStrategy: "keepFirst",
+  fuzzyColumns: [],
+  fuzzyMethod: "editDistance",
+  fuzzyThreshold: DEFAULT_FUZZY_THRESHOLD,
+  digitScript: "latin",
+  keepCharacterCategories: ["letters", "digits"],
+  normalizationForm: "NFC",
+  dateFormat: DEFAULT_DATE_FORMAT,
+  dateCalendar: "gregorian",
+  ambiguousDates: "flag",
+};
+
+/** How many distinct flagged values each date column summary keeps. */
+const MAX_DATE_SAMPLES = 5;
+
+/**
+ * Returns the index of the data column feeding a template header, or -1 if
+ * none does. A mapped column missing from the data falls back to the one of
+ * the same name.
+ */
+export const findSourceColumn = (
+  dataHeaders: string[],
+  header: string,
+  mapping: Record<string, string | null> = {},
+) => {
+  const source = mapping[header];
+
+  if (source === null) return -1;
+
+  const index = source === undefined ? -1 : dataHeaders.indexOf(source);
+
+  return index !== -1 ? index : dataHeaders.indexOf(header);
+};
+
+/**
+ * Returns the data column index feeding each template header, in template
+ * order, leaving out the headers no data column feeds.
+ */
+export const matchColumns = (
+  dataHeaders: string[],
+  templateHeaders: string[],
+  mapping: Record<string, string | null> = {},
+) =>
+  templateHeaders.reduce<{ header: string; index: number }[]>(
+    (matches, header) => {
+      const index = findSourceColumn(dataHeaders, header, mapping);
+
+      if (index !== -1) {
+        matches.push({ header, index });
+      }
+
+      return matches;
+    },
+    [],
+  );
+
+/**
+ * Returns the indexes (out of `columns`) of the columns that are empty in
+ * every row.
+ */
+export const findEmptyColumns = (rows: Cell[][], columns: number[]) => {
+  const empty = new Set(columns);
+
+  for (const row of rows) {
+    if (empty.size === 0) break;
+
+    empty.forEach((index) => {
+      if (!isEmptyCell(row[index] ?? null)) {
+        empty.delete(index);
+      }
+    });
+  }
+
+  return columns.filter((index) => empty.has(index));
+};
+
+/**
+ * What the cleaner needs to know about whole columns before it can clean any
+ * row: which are empty and how their dates are written.
+ */
+export interface ColumnScan {
+  /** Template-matched data columns that are empty in every row. */
+  emptyColumns: number[];
+  /** Date statistics of the template-matched data columns, by index. */
+  dateStats: Map<number, DateColumnStats>;
+}
+
+/**
+ * Whether the options need a read-only pass over every row before cleaning.
+ */
+export const needsColumnScan = (options: CleaningOptions) =>
+  isStepEnabled(options, "removeEmptyColumns") ||
+  isStepUsed(options, "standardizeDates");
+
+/**
+ * Creates a scanner that raw data rows can be fed through in batches,
+ * collecting what `createCleaner` needs about the template-matched columns.
+ */
+export const createColumnScanner = (
+  dataHeaders: string[],
+  templateHeaders: string[],
+  options: CleaningOptions,
+) => {
+  const matches = matchColumns(
+    dataHeaders,
+    templateHeaders,
+    options.columnMapping,
+  );
+  const columns = matches.map(({ index }) => index);
+  const removeEmptyColumns = isStepEnabled(options, "removeEmptyColumns");
+  const dateStats = new Map(
+    matches
+      .filter(({ header }) =>
+        isStepEnabledForColumn(options, "standardizeDates", header),
+      )
+      .map(({ index }) => [index, createDateStats()]),
+  );
+  let emptyColumns = columns;
+
+  return {
+    add: (rows: Cell[][]) => {
+      if (removeEmptyColumns) {
+        emptyColumns = findEmptyColumns(rows, emptyColumns);
+      }
+
+      dateStats.forEach((stats, index) => {
+        for (const row of rows) {
+          addDateStats(stats, row[index] ?? null);
+        }
+      });
+    },
+    getScan: (): ColumnScan => ({
+      emptyColumns: removeEmptyColumns ? emptyColumns : [],
+      dateStats,
+    }),
+  };
+};
+
+const createDateSummary = (
+  column: string,
+  plan: DateColumnPlan,
+): DateColumnSummary => ({
+  column,
+  formats: { iso: 0, us: 0, eu: 0, excelSerial: 0, textual: 0, jalali: 0 },
+  dayFirst: plan.dayFirst,
+  ambiguous: 0,
+  failed: 0,
+  ambiguousSamples: [],
+  failedSamples: [],
+});
+
+const addSample = (samples: string[], value: string) => {
+  if (samples.length < MAX_DATE_SAMPLES && !samples.includes(value)) {
+    samples.push(value);
+  }
+};
+
+const toText = (cell: Cell) => (cell === null ? "" : String(cell));
+
+type CellStep = (cell: Cell, column: number) => Cell;
+type RowStep = (row: Cell[]) => boolean;
+
+/** A row held back until its duplicates have all been seen. */
+interface HeldRow {
+  row: Cell[];
+  raw: Cell[];
+  rowNumber: number;
+}
+
+/**
+ * Creates a stateful cleaner for a data file with the given headers. Rows can
+ * be fed through it in any number of batches; duplicate detection and the
+ * running totals carry over between batches.
+ *
+ * Duplicates are kept first come, first served, unless
+ * `options.duplicateStrategy` needs to see every row with the same key: then
+ * rows are held back at `removeDuplicates`, and `finish` runs the rest of the
+ * steps over the survivors once the last row is in.
+ *
+ * Each row runs through the enabled steps in `options.steps` order, with
+ * `options.columnRules` deciding per column which cell steps apply. Empty-column
+ * removal and date standardization rely on `scan`, collected over every row
+ * with `createColumnScanner`.
+ *
+ * For streamed files, `maxAuditRows` caps the rejects and duplicates kept, and
+ * `hashKeys` keys duplicates by hash rather than by their cells. The template
+ * headers in `labelColumns` only label rows, like a merge's source file: they
+ * never keep a row from being empty and are not compared for duplicates.
+ */
+export const createCleaner = (
+  dataHeaders: string[],
+  templateHeaders: string[],
+  options: CleaningOptions,
+  scan?: ColumnScan,
+  maxAuditRows = Infinity,
+  hashKeys = false,
+  labelColumns: string[] = [],
+) => {
+  const enabled = (id: CleaningStepId) => isStepEnabled(options, id);
+  const emptyColumns = scan?.emptyColumns ?? [];
+  const templateMatches = matchColumns(
+    dataHeaders,
+    templateHeaders,
+    options.columnMapping,
+  );
+  // Empty-column removal runs after template filtering, so it only ever drops
+  // columns the template asked for.
+  const matches = enabled("removeEmptyColumns")
+    ? templateMatches.filter(({ index }) => !emptyColumns.includes(index))
+    : templateMatches;
+  const emptyColumnsRemoved = templateMatches.length - matches.length;
+  const missingColumns = templateHeaders.filter(
+    (header) => !templateMatches.some((match) => match.header === header),
+  );
+  // With `emitMissingColumns` every template header is written: the position
+  // of its kept column in `matches`, or -1 to fill it with
+  // `missingColumnValue`.
+  const layout = options.emitMissingColumns
+    ? templateHeaders.map((header) =>
+        matches.findIndex((match) => match.header === header),
+      )
+    : null;
+  const headers = layout
+    ? templateHeaders
+    : matches.map(({ header }) => header);
+  const toOutput = (row: Cell[]) =>
+    layout
+      ? layout.map((column) =>
+          column === -1 ? options.missingColumnValue : row[column],
+        )
+      : row;
+  const validate = createValidator(headers, options.schema);
+  const violations: Violation[] = [];
+  let violationCount = 0;
+  // Source row number, original cells and failure reasons of the first
+  // `maxAuditRows` rejects.
+  const rejects: Cell[][] = [];
+  let rejectedRows = 0;
+  // The data file row being cleaned, counting the header row as 1.
+  let rowNumber = 1;
+  const rules = matches.map(({ header }) => options.columnRules[header]);
+  const valueMaps = rules.map((rule) => rule?.valueMap);
+  const datePlans = matches.map(({ header, index }) => {
+    const stats =
+      isStepEnabledForColumn(options, "standardizeDates", header) &&
+      scan?.dateStats.get(index);
+
+    return stats ? planDateColumn(header, stats, options.ambiguousDates) : null;
+  });
+  const characterFilters = rules.map((rule) =>
+    createCharacterFilter(
+      options.keepCharacterCategories,
+      rule?.characterAllowlist,
+    ),
+  );
+  const dateOutputs = rules.map(
+    (rule) =>
+      rule?.dateOutput ?? {
+        calendar: options.dateCalendar,
+        format: options.dateFormat,
+      },
+  );
+  const dateSummaries = matches.map(({ header }, i) => {
+    const plan = datePlans[i];
+
+    return plan?.isDateColumn ? createDateSummary(header, plan) : null;
+  });
+  // The kept columns that hold the row's values rather than label it.
+  const valueColumns = matches.flatMap(({ header }, column) =>
+    labelColumns.includes(header) ? [] : [column],
+  );
+  // The row number each key was first seen at.
+  const seenRows = new Map<string, number>();
+  const keyColumns =
+    options.duplicateKeys.length > 0
+      ? options.duplicateKeys
+          .map((key) => matches.findIndex(({ header }) => header === key))
+          .filter((column) => column !== -1)
+      : valueColumns.length < matches.length
+        ? valueColumns
+        : [];
+  // Key columns that are unmapped or removed as empty. When none are left,
+  // every key is empty, so no row is a duplicate of another.
+  const missingDuplicateKeys = enabled("removeDuplicates")
+    ? options.duplicateKeys.filter(
+        (key) => !matches.some(({ header }) => header === key),
+      )
+    : [];
+  const getDuplicateKey =
+    options.duplicateKeys.length > 0 && keyColumns.length === 0
+      ? () => null
+      : createDuplicateKey(keyColumns, hashKeys);
+  // Source row number, kept row number and compared cells of the first
+  // `maxAuditRows` duplicates.
+  const duplicates: Cell[][] = [];
+  const recordDuplicate = (row: Cell[]) => {
+    if (duplicates.length < maxAuditRows) duplicates.push(row);
+  };
+  // Groups of rows with the same key, in the order each key was first seen.
+  const heldGroups: HeldRow[][] = [];
+  const heldGroupIndex = new Map<string, number>();
+  let totalRowsCleaned = 0;
+
+  const standardizeDate = (value: string, column: number) => {
+    const plan = datePlans[column];
+    const summary = dateSummaries[column];
+
+    if (!plan || !summary || value.trim() === "") return value;
+
+    const reading = resolveDate(value, plan);
+
+    if (!reading) {
+      summary.failed++;
+      addSample(summary.failedSamples, value);
+
+      return value;
+    }
+
+    if (reading.format === "ambiguous") {
+      summary.ambiguous++;
+      addSample(summary.ambiguousSamples, value);
+
+      return value;
+    }
+
+    summary.formats[reading.format]++;
+
+    const { calendar, format } = dateOutputs[column];
+
+    return formatDate(toCalendar(reading, calendar), format, calendar);
+  };
+
+  const cellSteps: Partial<Record<CleaningStepId, CellStep>> = {
+    // Spreadsheet numbers have no digits or letters to normalize.
+    normalizePersian: (cell) =>
+      typeof cell === "string"
+        ? normalizePersian(cell, options.digitScript)
+        : cell,
+    normalizeText: (cell) =>
+      normalizeText(toText(cell), options.normalizationForm),
+    trimWhitespace: (cell) => toText(cell).trim(),
+    standardizeDates: (cell, column) => standardizeDate(toText(cell), column),
+    convertToUppercase: (cell) => toText(cell).toUpperCase(),
+    convertToLowercase: (cell) => toText(cell).toLowerCase(),
+    removeSpecialCharacters: (cell, column) =>
+      characterFilters[column](toText(cell)),
+    removeLeadingZeros: (cell) => {
+      const value = toText(cell);
+
+      return /^0+\d/.test(value) ? value.replace(/^0+/, "") : value;
+    },
+  };
+
+  const rowSteps: Partial<Record<CleaningStepId, RowStep>> = {
+    removeEmptyRows: (row) =>
+      !valueColumns.every((column) => isEmptyCell(row[column])),
+    removeDuplicates: (row) => {
+      const rowKey = getDuplicateKey(row);
+
+      if (rowKey === null) return true;
+
+      const firstRow = seenRows.get(rowKey);
+
+      if (firstRow !== undefined) {
+        recordDuplicate([rowNumber, firstRow, ...toOutput(row)]);
+
+        return false;
+      }
+      seenRows.set(rowKey, rowNumber);
+
+      return true;
+    },
+  };
+
+  const pipeline = options.steps
+    .filter(({ id }) => (cellSteps[id] ? isStepUsed(options, id) : enabled(id)))
+    .map(({ id }) => {
+      const stats: StepStats = {
+        id,
+        rowsIn: 0,
+        rowsRemoved: 0,
+        cellsChanged: 0,
+      };
+      // Which of the kept columns the step rewrites.
+      const columns = matches.map(({ header }) =>
+        isStepEnabledForColumn(options, id, header),
+      );
+
+      return { stats, columns, cellStep: cellSteps[id], rowStep: rowSteps[id] };
+    });
+
+  // With a strategy other than keeping the first row, rows are held back at
+  // `removeDuplicates` and the steps after it run in `finish`.
+  const holdAt =
+    options.duplicateStrategy === "keepFirst"
+      ? -1
+      : pipeline.findIndex(({ stats }) => stats.id === "removeDuplicates");
+  const stepsBefore = holdAt === -1 ? pipeline : pipeline.slice(0, holdAt);
+  const stepsAfter = holdAt === -1 ? [] : pipeline.slice(holdAt + 1);
+
+  /** Runs a row through the given steps; null if one of them drops it. */
+  const runSteps = (
+    selected: Cell[],
+    steps: typeof pipeline,
+  ): Cell[] | null => {
+    let row = selected;
+
+    for (const { stats, columns, cellStep, rowStep } of steps) {
+      stats.rowsIn++;
+
+      if (cellStep) {
+        row = row.map((cell, column) => {
+          if (!columns[column]) return cell;
+
+          const changed = cellStep(cell, column);
+
+          if (toText(changed) !== toText(cell)) stats.cellsChanged++;
+
+          return changed;
+        });
+      } else if (rowStep && !rowStep(row)) {
+        stats.rowsRemoved++;
+
+        return null;
+      } else if (stats.id === "removeEmptyColumns") {
+        // The columns were left out when the row was selected.
+        stats.cellsChanged += emptyColumnsRemoved;
+      }
+    }
+
+    return row;
+  };
+
+  /**
+   * Lays out a row that made it through every step and validates it; null if
+   * it breaks the schema.
+   */
+  const finishRow = (
+    row: Cell[],
+    raw: Cell[],
+    sourceRow: number,
+  ): Cell[] | null => {
+    const cleaned = toOutput(row);
+    const rowViolations = validate(cleaned, sourceRow);
+
+    violationCount += rowViolations.length;
+    violations.push(
+      ...rowViolations.slice(0, MAX_VIOLATIONS - violations.length),
+    );
+
+    if (rowViolations.length > 0) {
+      rejectedRows++;
+
+      if (rejects.length < maxAuditRows) {
+        rejects.push([
+          sourceRow,
+          ...dataHeaders.map((_, index) => raw[index] ?? ""),
+          ...rowViolations.map(
+            ({ column, message }) => `${column}: ${message}`,
+          ),
+        ]);
+      }
+
+      return null;
+    }
+    totalRowsCleaned++;
+
+    return cleaned;
+  };
+
+  const holdRow = (held: HeldRow) => {
+    const { stats } = pipeline[holdAt];
+    const rowKey = getDuplicateKey(held.row);
+    const groupIndex = rowKey === null ? undefined : heldGroupIndex.get(rowKey);
+
+    stats.rowsIn++;
+
+    if (groupIndex === undefined) {
+      if (rowKey !== null) heldGroupIndex.set(rowKey, heldGroups.length);
+      heldGroups.push([held]);
+    } else {
+      stats.rowsRemoved++;
+      heldGroups[groupIndex].push(held);
+    }
+  };
+
+  /**
+   * Runs one raw data row through every step; null if a step drops it, it
+   * breaks the schema or it is held back for duplicate removal. `sourceRow`
+   * is the row's number in its file, for rows that don't follow on from the
+   * previous one.
+   */
+  const cleanRow = (raw: Cell[], sourceRow = rowNumber + 1): Cell[] | null => {
+    rowNumber = sourceRow;
+
+    const row = runSteps(
+      matches.map(({ index }, i) => mapValue(raw[index] ?? "", valueMaps[i])),
+      stepsBefore,
+    );
+
+    if (!row) return null;
+
+    if (holdAt !== -1) {
+      holdRow({ row, raw, rowNumber });
+
+      return null;
+    }
+
+    return finishRow(row, raw, rowNumber);
+  };
+
+  /**
+   * Picks the survivor of each group of held duplicates and runs it through
+   * the remaining steps, returning the cleaned rows and their row numbers.
+   * Call once, after the last row.
+   */
+  const finish = () => {
+    const cleaned: Cell[][] = [];
+    const rowNumbers: number[] = [];
+
+    heldGroups.forEach((group) => {
+      const survivor = pickSurvivor(
+        group.map(({ row }) => row),
+        options.duplicateStrategy,
+      );
+      const kept = group[survivor.index];
+
+      pipeline[holdAt].stats.cellsChanged += survivor.cellsFilled;
+      group.forEach((held, i) => {
+        if (i !== survivor.index) {
+          recordDuplicate([
+            held.rowNumber,
+            kept.rowNumber,
+            ...toOutput(held.row),
+          ]);
+        }
+      });
+
+      const row = runSteps(survivor.row, stepsAfter);
+      const finished = row && finishRow(row, kept.raw, kept.rowNumber);
+
+      if (finished) {
+        cleaned.push(finished);
+        rowNumbers.push(kept.rowNumber);
+      }
+    });
+    heldGroups.length = 0;
+    heldGroupIndex.clear();
+
+    return { rows: cleaned, rowNumbers };
+  };
+
+  const getStepStats = (id: CleaningStepId) =>
+    pipeline.find(({ stats }) => stats.id === id)?.stats;
+
+  return {
+    headers,
+    cleanRow,
+    /** Runs every step over a batch of raw data rows. */
+    cleanRows: (rows: Cell[][]) =>
+      rows.reduce<Cell[][]>((cleaned, raw) => {
+        const row = cleanRow(raw);
+
+        if (row) cleaned.push(row);
+
+        return cleaned;
+      }, []),
+    finish,
+    getStats: (): CleaningStats => ({
+      totalRowsCleaned,
+      columnsDeleted: dataHeaders.length - matches.length,
+      duplicateRowsRemoved: getStepStats("removeDuplicates")?.rowsRemoved ?? 0,
+      emptyColumnsRemoved,
+      missingColumns,
+      missingDuplicateKeys,
+      steps: pipeline.map(({ stats }) => ({ ...stats })),
+      dateColumns: dateSummaries.filter(
+        (summary): summary is DateColumnSummary => summary !== null,
+      ),
+      violations: [...violations],
+      violationCount,
+      rejectedRows,
+    }),
+    /**
+     * The rejected rows so far, up to `maxAuditRows`, padded to the most
+     * reasons any row has.
+     */
+    getRejects: (): Table => {
+      const reasons = Math.max(
+        0,
+        ...rejects.map((row) => row.length - dataHeaders.length - 1),
+      );
+      const width = dataHeaders.length + 1 + reasons;
+
+      return {
+        headers: [
+          "Source Row",
+          ...dataHeaders,
+          ...Array.from({ length: reasons }, (_, i) => `Reason ${i + 1}`),
+        ],
+        rows: rejects.map((row) => [
+          ...row,
+          ...Array<Cell>(width - row.length).fill(""),
+        ]),
+      };
+    },
+    /** The rows removed as duplicates so far, up to `maxAuditRows`. */
+    getDuplicates: (): Table => ({
+      headers: ["Source Row", "Duplicate Of", ...headers],
+      rows: [...duplicates],
+    }),
+  };
+};
+
+export type Cleaner = ReturnType<typeof createCleaner>;
+
+/**
+ * Finds the clusters of likely duplicates `options.fuzzyColumns` asks for,
+ * when `removeDuplicates` is enabled.
+ */
+export const findLikelyDuplicates = (
+  table: Table,
+  options: CleaningOptions,
+  onProgress?: ProgressCallback,
+) =>
+  isStepEnabled(options, "removeDuplicates") && options.fuzzyColumns.length > 0
+    ? findFuzzyClusters(
+        table,
+        options.fuzzyColumns,
+        options.fuzzyMethod,
+        options.fuzzyThreshold,
+        onProgress,
+      )
+    : [];
+
+/**
+ * Keeps the data columns mapped to a template header, under that header and in
+ * template order, and runs the enabled cleaning steps over the remaining rows.
+ * With `emitMissingColumns`, template headers without a source are written
+ * too, filled with `missingColumnValue`. The cleaned rows are then checked
+ * against `options.schema`, and rows that break it are moved to `rejects`.
+ *
+ * `onProgress` is called as each stage in `CLEANING_STAGES` advances, then
+ * as the search for likely duplicates does.
+ */
+export const cleanData = (
+  data: Table,
+  template: Table,
+  options: CleaningOptions,
+  onProgress?: ProgressCallback,
+): CleaningResult => {
+  const total = data.rows.length;
+  const reportScan = createStageReporter("scan", total, onProgress);
+  let scan: ColumnScan | undefined;
+
+  if (needsColumnScan(options)) {
+    const scanner = createColumnScanner(
+      data.headers,
+      template.headers,
+      options,
+    );
+
+    data.rows.forEach((row, i) => {
+      scanner.add([row]);
+      reportScan(i + 1);
+    });
+    scan = scanner.getScan();
+  }
+
+  reportScan(total);
+
+  const cleaner = createCleaner(data.headers, template.headers, options, scan);
+  const reportClean = createStageReporter("clean", total, onProgress);
+  const rows: Cell[][] = [];
+  const rowNumbers: number[] = [];
+
+  data.rows.forEach((raw, i) => {
+    const row = cleaner.cleanRow(raw);
+
+    if (row) {
+      rows.push(row);
+      rowNumbers.push(i + 2);
+    }
+    reportClean(i + 1);
+  });
+
+  const held = cleaner.finish();
+
+  rows.push(...held.rows);
+  rowNumbers.push(...held.rowNumbers);
+  reportClean(total);
+
+  const table = { headers: cleaner.headers, rows };
+
+  return {
+    table,
+    rowNumbers,
+    rejects: cleaner.getRejects(),
+    duplicates: cleaner.getDuplicates(),
+    fuzzyClusters: findLikelyDuplicates(table, options, onProgress),
+    ...cleaner.getStats(),
+  };
+};
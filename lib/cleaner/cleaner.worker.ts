@@ -0,0 +1,63 @@
+import { cleanData } from "./clean";
+import { cleanMergedData } from "./merge";
+import { parseFile } from "./parse";
+import { cleanCsvStream, scanCsv } from "./stream";
+import { CleaningProgress } from "./types";
+import { countValues } from "./values";
+import { WorkerRequest, WorkerResponse } from "./worker-protocol";
+import { zipFiles } from "./zip";
+
+// The project compiles against the DOM lib, so narrow `self` to the parts of
+// the dedicated worker scope we use.
+const scope = self as unknown as {
+  postMessage: (message: WorkerResponse) => void;
+  onmessage: ((event: MessageEvent<WorkerRequest>) => void) | null;
+};
+
+const reportProgress = (progress: CleaningProgress) =>
+  scope.postMessage({ type: "progress", progress });
+
+const runTask = async (request: WorkerRequest) => {
+  switch (request.type) {
+    case "parse":
+      return parseFile(request.file, reportProgress);
+    case "scan":
+      return scanCsv(request.file, reportProgress);
+    case "clean":
+      return cleanData(
+        request.data,
+        request.template,
+        request.options,
+        reportProgress,
+      );
+    case "cleanMerged":
+      return cleanMergedData(
+        request.files,
+        request.template,
+        request.options,
+        reportProgress,
+      );
+    case "cleanFile":
+      return cleanCsvStream(
+        request.file,
+        request.template,
+        request.options,
+        reportProgress,
+      );
+    case "countValues":
+      return countValues(request.cells);
+    case "zip":
+      return zipFiles(request.files);
+  }
+};
+
+scope.onmessage = async (event) => {
+  try {
+    scope.postMessage({ type: "result", result: await runTask(event.data) });
+  } catch (error) {
+    scope.postMessage({
+      type: "error",
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+};
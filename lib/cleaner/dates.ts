@@ -0,0 +1,437 @@
+import {
+  gregorianToJalali,
+  jalaliToGregorian,
+  toValidJalaliDate,
+} from "./jalali";
+import { toDigitScript } from "./text";
+import {
+  AmbiguousDateHandling,
+  Cell,
+  DateCalendar,
+  DateInputFormat,
+} from "./types";
+
+export interface DateParts {
+  year: number;
+  month: number;
+  day: number;
+}
+
+/**
+ * Output formats offered in the UI. Any pattern built from the `YYYY`, `MM`,
+ * `M`, `DD`, `D` and `MMM` tokens is accepted by `formatDate`.
+ */
+export const DATE_FORMATS = [
+  "YYYY-MM-DD",
+  "MM/DD/YYYY",
+  "DD/MM/YYYY",
+  "DD.MM.YYYY",
+  "YYYY/MM/DD",
+  "DD MMM YYYY",
+];
+
+export const DEFAULT_DATE_FORMAT = DATE_FORMATS[0];
+
+export const DATE_INPUT_FORMAT_LABELS: Record<DateInputFormat, string> = {
+  iso: "ISO",
+  us: "US (M/D/Y)",
+  eu: "EU (D/M/Y)",
+  excelSerial: "Excel serial",
+  textual: "Textual month",
+  jalali: "Jalali",
+};
+
+export const DATE_CALENDAR_LABELS: Record<DateCalendar, string> = {
+  gregorian: "Gregorian",
+  jalali: "Jalali (Persian)",
+};
+
+const MONTH_NAMES = [
+  "january",
+  "february",
+  "march",
+  "april",
+  "may",
+  "june",
+  "july",
+  "august",
+  "september",
+  "october",
+  "november",
+  "december",
+];
+
+const MONTH_ABBREVIATIONS = MONTH_NAMES.map(
+  (name) => name[0].toUpperCase() + name.slice(1, 3),
+);
+
+// Jalali months have no common short forms, so `MMM` writes them in full.
+const JALALI_MONTH_NAMES = [
+  "Farvardin",
+  "Ordibehesht",
+  "Khordad",
+  "Tir",
+  "Mordad",
+  "Shahrivar",
+  "Mehr",
+  "Aban",
+  "Azar",
+  "Dey",
+  "Bahman",
+  "Esfand",
+];
+
+// Numeric dates with a year in this range are read as Jalali (currently 14xx),
+// since Gregorian dates from these centuries don't turn up in spreadsheets.
+const isJalaliYear = (year: number) => year >= 1200 && year < 1500;
+
+// Optional trailing time, e.g. "T10:30:00Z" or " 10:30"
+const TIME_SUFFIX = String.raw`(?:[T ]\d{1,2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?`;
+
+const YEAR_FIRST = new RegExp(
+  String.raw`^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})${TIME_SUFFIX}$`,
+);
+const YEAR_LAST = /^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})$/;
+const MONTH_NAME_FIRST =
+  /^([a-z]{3,9})\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})$/i;
+const DAY_FIRST_MONTH_NAME =
+  /^(\d{1,2})(?:st|nd|rd|th)?[\s-]+([a-z]{3,9})\.?,?[\s-]+(\d{4})$/i;
+
+const parseMonthName = (name: string) => {
+  const lower = name.toLowerCase();
+  const index = MONTH_NAMES.findIndex(
+    (month) =>
+      month === lower || (lower.length >= 3 && month.startsWith(lower)),
+  );
+
+  return index === -1 ? null : index + 1;
+};
+
+const daysInMonth = (year: number, month: number) =>
+  new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+/**
+ * Returns the parts if they form a real calendar date.
+ */
+export const toValidDate = (
+  year: number,
+  month: number | null,
+  day: number,
+): DateParts | null =>
+  month !== null &&
+  month >= 1 &&
+  month <= 12 &&
+  day >= 1 &&
+  day <= daysInMonth(year, month)
+    ? { year, month, day }
+    : null;
+
+const EXCEL_SERIAL = /^\d+(?:\.\d+)?$/;
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Serial 61 is 1900-03-01. Excel counts a fictional 1900-02-29, so serials
+// below it are off by a day and are not treated as dates.
+const MIN_EXCEL_SERIAL = 61;
+// 9999-12-31, the last date Excel can represent.
+const MAX_EXCEL_SERIAL = 2958465;
+
+/**
+ * Converts an Excel date serial, as returned by `sheet_to_json` for date
+ * cells, to date parts. Any time-of-day fraction is dropped.
+ */
+export const excelSerialToDate = (serial: number): DateParts | null => {
+  if (serial < MIN_EXCEL_SERIAL || serial > MAX_EXCEL_SERIAL) return null;
+
+  const date = new Date(EXCEL_EPOCH + Math.floor(serial) * DAY_MS);
+
+  return {
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+  };
+};
+
+/**
+ * How a single value reads as a date. Numeric day/month dates where either
+ * part could be the month (e.g. 03/04/2022) are `ambiguous` and carry both
+ * readings.
+ */
+export type DateReading =
+  | { format: DateInputFormat; parts: DateParts }
+  | { format: "ambiguous"; monthFirst: DateParts; dayFirst: DateParts };
+
+const isSameDate = (a: DateParts, b: DateParts) =>
+  a.year === b.year && a.month === b.month && a.day === b.day;
+
+/**
+ * Reads a value in any of the supported input formats. Bare numbers are only
+ * read as Excel serials when `excelSerials` is set, since most numeric columns
+ * are not dates.
+ */
+export const readDate = (
+  value: string,
+  excelSerials = false,
+): DateReading | null => {
+  const text = toDigitScript(value.trim(), "latin");
+
+  if (EXCEL_SERIAL.test(text)) {
+    const parts = excelSerials ? excelSerialToDate(+text) : null;
+
+    return parts && { format: "excelSerial", parts };
+  }
+
+  let match = YEAR_FIRST.exec(text);
+
+  if (match) {
+    if (isJalaliYear(+match[1])) {
+      const parts = toValidJalaliDate(+match[1], +match[2], +match[3]);
+
+      return parts && { format: "jalali", parts };
+    }
+
+    const parts = toValidDate(+match[1], +match[2], +match[3]);
+
+    return parts && { format: "iso", parts };
+  }
+
+  match = MONTH_NAME_FIRST.exec(text);
+  if (match) {
+    const parts = toValidDate(+match[3], parseMonthName(match[1]), +match[2]);
+
+    return parts && { format: "textual", parts };
+  }
+
+  match = DAY_FIRST_MONTH_NAME.exec(text);
+  if (match) {
+    const parts = toValidDate(+match[3], parseMonthName(match[2]), +match[1]);
+
+    return parts && { format: "textual", parts };
+  }
+
+  match = YEAR_LAST.exec(text);
+  if (match) {
+    // Jalali dates with the year last are written day first, e.g. 12/05/1401
+    if (isJalaliYear(+match[3])) {
+      const parts = toValidJalaliDate(+match[3], +match[2], +match[1]);
+
+      return parts && { format: "jalali", parts };
+    }
+
+    const monthFirst = toValidDate(+match[3], +match[1], +match[2]);
+    const dayFirst = toValidDate(+match[3], +match[2], +match[1]);
+
+    if (monthFirst && dayFirst) {
+      return { format: "ambiguous", monthFirst, dayFirst };
+    }
+
+    if (monthFirst) return { format: "us", parts: monthFirst };
+    if (dayFirst) return { format: "eu", parts: dayFirst };
+  }
+
+  return null;
+};
+
+/**
+ * Parses ISO-style (year first), textual-month, Jalali and unambiguous numeric
+ * dates into Gregorian parts. Numeric day/month dates where both parts could
+ * be the month (e.g. 03/04/2022) are left unparsed rather than guessed.
+ */
+export const parseDate = (value: string): DateParts | null => {
+  const reading = readDate(value);
+
+  if (reading?.format !== "ambiguous") {
+    return reading && toCalendar(reading, "gregorian");
+  }
+
+  return isSameDate(reading.monthFirst, reading.dayFirst)
+    ? reading.monthFirst
+    : null;
+};
+
+/**
+ * Returns a settled reading's date in the given calendar. Only `jalali`
+ * readings are Jalali; every other input format is Gregorian.
+ */
+export const toCalendar = (
+  { format, parts }: { format: DateInputFormat; parts: DateParts },
+  calendar: DateCalendar,
+) => {
+  const source: DateCalendar = format === "jalali" ? "jalali" : "gregorian";
+
+  if (source === calendar) return parts;
+
+  return calendar === "jalali"
+    ? gregorianToJalali(parts)
+    : jalaliToGregorian(parts);
+};
+
+/**
+ * Counts gathered over a column's values to decide how its dates are read.
+ */
+export interface DateColumnStats {
+  /** Non-empty values. */
+  values: number;
+  /** Values that read as a date without Excel serials, ambiguous included. */
+  dates: number;
+  /** Numeric dates that only work month first (US) or day first (EU). */
+  monthFirst: number;
+  dayFirst: number;
+  /** Bare numbers in the Excel serial range. */
+  serials: number;
+}
+
+/**
+ * How the values of one column are standardized.
+ */
+export interface DateColumnPlan {
+  /** Whether most of the column's values are dates. */
+  isDateColumn: boolean;
+  /** Whether bare numbers in the column are Excel date serials. */
+  excelSerials: boolean;
+  /** Day/month order for ambiguous values, or null to flag them. */
+  dayFirst: boolean | null;
+}
+
+export const createDateStats = (): DateColumnStats => ({
+  values: 0,
+  dates: 0,
+  monthFirst: 0,
+  dayFirst: 0,
+  serials: 0,
+});
+
+/**
+ * Adds a cell to a column's date statistics.
+ */
+export const addDateStats = (stats: DateColumnStats, cell: Cell) => {
+  const text = cell === null ? "" : String(cell).trim();
+
+  if (text === "") return;
+  stats.values++;
+
+  const reading = readDate(text, true);
+
+  if (!reading) return;
+
+  if (reading.format === "excelSerial") {
+    stats.serials++;
+
+    return;
+  }
+
+  stats.dates++;
+  if (reading.format === "us") stats.monthFirst++;
+  if (reading.format === "eu") stats.dayFirst++;
+};
+
+const DATE_HEADER_WORDS = new Set([
+  "date",
+  "day",
+  "dob",
+  "born",
+  "birthday",
+  "time",
+  "timestamp",
+  "created",
+  "updated",
+  "modified",
+  "joined",
+  "hired",
+  "start",
+  "end",
+  "due",
+  "expiry",
+  "expires",
+]);
+
+/**
+ * Whether a header names a date, e.g. `Start Date`, `hire_date` or `DOB`.
+ */
+export const isDateHeader = (header: string) =>
+  header
+    .replace(/([a-z])([A-Z])/g, "$1 $2")
+    .toLowerCase()
+    .split(/[^a-z]+/)
+    .some((word) => DATE_HEADER_WORDS.has(word) || word.endsWith("date"));
+
+/**
+ * Decides how a column's dates are read from its statistics.
+ *
+ * Bare numbers count as Excel serials only under a date-like header or next to
+ * other dates. Ambiguous values follow `ambiguousDates`; with `"flag"` they
+ * take the order of the column's unambiguous values, and are only flagged
+ * when the column has none or has both.
+ */
+export const planDateColumn = (
+  header: string,
+  stats: DateColumnStats,
+  ambiguousDates: AmbiguousDateHandling,
+): DateColumnPlan => {
+  const excelSerials =
+    stats.serials > 0 && (stats.dates > 0 || isDateHeader(header));
+  const dates = stats.dates + (excelSerials ? stats.serials : 0);
+  let dayFirst: boolean | null = null;
+
+  if (ambiguousDates !== "flag") {
+    dayFirst = ambiguousDates === "dayFirst";
+  } else if (stats.dayFirst > 0 && stats.monthFirst === 0) {
+    dayFirst = true;
+  } else if (stats.monthFirst > 0 && stats.dayFirst === 0) {
+    dayFirst = false;
+  }
+
+  return { isDateColumn: dates > stats.values / 2, excelSerials, dayFirst };
+};
+
+/**
+ * Reads a value from a planned column, settling ambiguous values with the
+ * column's day/month order when it has one.
+ */
+export const resolveDate = (
+  value: string,
+  plan: DateColumnPlan,
+): DateReading | null => {
+  const reading = readDate(value, plan.excelSerials);
+
+  if (reading?.format !== "ambiguous") return reading;
+
+  if (plan.dayFirst !== null) {
+    return plan.dayFirst
+      ? { format: "eu", parts: reading.dayFirst }
+      : { format: "us", parts: reading.monthFirst };
+  }
+
+  return isSameDate(reading.monthFirst, reading.dayFirst)
+    ? { format: "us", parts: reading.monthFirst }
+    : reading;
+};
+
+const pad = (value: number, length = 2) => String(value).padStart(length, "0");
+
+/**
+ * Formats date parts using `YYYY`, `MMM`, `MM`, `M`, `DD` and `D` tokens.
+ * `calendar` only picks the month names; the parts must already be in it.
+ */
+export const formatDate = (
+  { year, month, day }: DateParts,
+  format: string,
+  calendar: DateCalendar = "gregorian",
+) =>
+  format.replace(/YYYY|MMM|MM|M|DD|D/g, (token) => {
+    switch (token) {
+      case "YYYY":
+        return pad(year, 4);
+      case "MMM":
+        return calendar === "jalali"
+          ? JALALI_MONTH_NAMES[month - 1]
+          : MONTH_ABBREVIATIONS[month - 1];
+      case "MM":
+        return pad(month);
+      case "M":
+        return String(month);
+      case "DD":
+        return pad(day);
+      default:
+        return String(day);
+    }
+  });
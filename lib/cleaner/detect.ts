@@ -0,0 +1,40 @@
+import { DetectableFile } from "./types";
+
+/**
+ * Marks the file with the most rows (then the largest size) as the data file
+ * and the runner-up as the template file. A template picked from the library
+ * is kept as the template, and only the data file is detected.
+ *
+ * In batch mode every file but the template is a data file, and the template
+ * is the file with the fewest rows (then the smallest size).
+ */
+export const detectFileTypes = <T extends DetectableFile>(
+  files: T[],
+  batch = false,
+): T[] => {
+  if (files.length < 2) return files;
+
+  const libraryTemplate = files.find((file) => file.isLibraryTemplate);
+  const sortedFiles = files
+    .filter((file) => !file.isLibraryTemplate)
+    .sort((a, b) => {
+      if (a.rowCount !== b.rowCount) {
+        return (b.rowCount || 0) - (a.rowCount || 0);
+      }
+
+      return b.size - a.size;
+    });
+  const templateId =
+    libraryTemplate?.id ??
+    (batch ? sortedFiles[sortedFiles.length - 1].id : sortedFiles[1].id);
+
+  return files.map((file) => {
+    const isTemplate = file.id === templateId;
+
+    return {
+      ...file,
+      isDataFile: batch ? !isTemplate : file.id === sortedFiles[0]?.id,
+      isTemplateFile: isTemplate,
+    };
+  });
+};
@@ -0,0 +1,77 @@
+import { isEmptyCell } from "./cells";
+import { hashRow } from "./hash";
+import { Cell, DuplicateStrategy } from "./types";
+
+export const DUPLICATE_STRATEGY_LABELS: Record<DuplicateStrategy, string> = {
+  keepFirst: "Keep the first row",
+  keepLast: "Keep the last row",
+  mostComplete: "Keep the most complete row",
+  merge: "Merge non-empty values into the first row",
+};
+
+/**
+ * Creates the function that keys rows for duplicate detection: the whole row,
+ * or only the cells at `keyColumns`. Rows whose key cells are all empty get
+ * no key, since a missing key says nothing about which record they are.
+ *
+ * Keys are the exact cells unless `hashed`, which trades a tiny chance of two
+ * distinct rows sharing a key for a fixed size per key on streamed files.
+ */
+export const createDuplicateKey = (keyColumns: number[], hashed = false) => {
+  const toKey = hashed ? hashRow : (cells: Cell[]) => JSON.stringify(cells);
+
+  if (keyColumns.length === 0) return (row: Cell[]) => toKey(row);
+
+  return (row: Cell[]) => {
+    const key = keyColumns.map((column) => row[column] ?? "");
+
+    return key.every(isEmptyCell) ? null : toKey(key);
+  };
+};
+
+const countFilled = (row: Cell[]) =>
+  row.filter((cell) => !isEmptyCell(cell)).length;
+
+/**
+ * Picks the row that survives from a group of duplicates, in the order they
+ * were found. Returns the survivor's index in the group, its cells, and how
+ * many of them `merge` filled in from later rows.
+ */
+export const pickSurvivor = (
+  group: Cell[][],
+  strategy: DuplicateStrategy,
+): { index: number; row: Cell[]; cellsFilled: number } => {
+  if (strategy === "keepLast") {
+    const index = group.length - 1;
+
+    return { index, row: group[index], cellsFilled: 0 };
+  }
+
+  if (strategy === "mostComplete") {
+    const index = group.reduce(
+      (best, row, i) =>
+        countFilled(row) > countFilled(group[best]) ? i : best,
+      0,
+    );
+
+    return { index, row: group[index], cellsFilled: 0 };
+  }
+
+  if (strategy === "merge") {
+    let cellsFilled = 0;
+    const row = group[0].map((cell, column) => {
+      if (!isEmptyCell(cell)) return cell;
+
+      const filler = group.find((other) => !isEmptyCell(other[column] ?? null));
+
+      if (!filler) return cell;
+      cellsFilled++;
+
+      return filler[column];
+    });
+
+    return { index: 0, row, cellsFilled };
+  }
+
+  return { index: 0, row: group[0], cellsFilled: 0 };
+};
@@ -0,0 +1,81 @@
+import * as XLSX from "xlsx";
+import Papa from "papaparse";
+
+import { Cell, DownloadFormat, Table } from "./types";
+
+const toRows = (table: Table): Cell[][] => [table.headers, ...table.rows];
+
+/**
+ * Serializes rows to CSV text with every field quoted.
+ */
+export const rowsToCsv = (rows: Cell[][]) =>
+  Papa.unparse(rows, {
+    quotes: true,
+    header: false,
+  });
+
+/**
+ * Serializes a table to CSV text with every field quoted.
+ */
+export const tableToCsv = (table: Table) => rowsToCsv(toRows(table));
+
+/**
+ * Serializes a table to an XLSX workbook with a single sheet.
+ */
+export const tableToXlsx = (table: Table, sheetName = "Cleaned Data") => {
+  const workbook = XLSX.utils.book_new();
+
+  XLSX.utils.book_append_sheet(
+    workbook,
+    XLSX.utils.aoa_to_sheet(toRows(table)),
+    sheetName,
+  );
+
+  return XLSX.write(workbook, {
+    type: "array",
+    bookType: "xlsx",
+  }) as ArrayBuffer;
+};
+
+/**
+ * Serializes a table into a downloadable blob in the requested format.
+ */
+export const tableToBlob = (table: Table, format: DownloadFormat) =>
+  format === "csv"
+    ? new Blob([tableToCsv(table)], { type: "text/csv;charset=utf-8;" })
+    : new Blob([tableToXlsx(table)], {
+        type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+      });
+
+/**
+ * Builds the dated file name used for cleaned downloads, e.g.
+ * `cleaned-data-2024-01-31.csv`, or for a batch's ZIP of them.
+ */
+export const getDownloadFilename = (
+  format: DownloadFormat | "zip",
+  prefix = "cleaned-data",
+  date = new Date(),
+) => `${prefix}-${date.toISOString().split("T")[0]}.${format}`;
+
+/**
+ * Names the outputs of a batch after their source files, e.g. `sales.xlsx`
+ * becomes `sales-cleaned.csv`, numbering any names that would clash.
+ */
+export const getOutputFilenames = (
+  files: { name: string; format: DownloadFormat }[],
+  suffix = "cleaned",
+) => {
+  const taken = new Set<string>();
+
+  return files.map(({ name, format }) => {
+    const base = `${name.replace(/\.[^.]+$/, "")}-${suffix}`;
+    let fileName = `${base}.${format}`;
+
+    for (let n = 2; taken.has(fileName.toLowerCase()); n++) {
+      fileName = `${base}-${n}.${format}`;
+    }
+    taken.add(fileName.toLowerCase());
+
+    return fileName;
+  });
+};
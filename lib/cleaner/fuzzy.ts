@@ -0,0 +1,270 @@
+import { pickSurvivor } from "./duplicates";
+import { editDistance } from "./headers";
+import { createStageReporter } from "./progress";
+import {
+  Cell,
+  CleaningResult,
+  DuplicateStrategy,
+  FuzzyCluster,
+  FuzzyMethod,
+  ProgressCallback,
+  Table,
+} from "./types";
+
+export const FUZZY_METHOD_LABELS: Record<FuzzyMethod, string> = {
+  editDistance: "Similar spelling",
+  tokenSort: "Same words in any order",
+  phonetic: "Sounds alike",
+};
+
+export const DEFAULT_FUZZY_THRESHOLD = 0.85;
+
+/**
+ * How many pairs of rows `findFuzzyClusters` compares at most, as every row
+ * is compared to every other row with the same first character.
+ */
+export const MAX_FUZZY_COMPARISONS = 20000000;
+
+const WORD = new RegExp(String.raw`[\p{L}\p{N}]+`, "gu");
+
+const SOUNDEX_CODES: Record<string, string> = {
+  b: "1",
+  f: "1",
+  p: "1",
+  v: "1",
+  c: "2",
+  g: "2",
+  j: "2",
+  k: "2",
+  q: "2",
+  s: "2",
+  x: "2",
+  z: "2",
+  d: "3",
+  t: "3",
+  l: "4",
+  m: "5",
+  n: "5",
+  r: "6",
+};
+
+/**
+ * The American Soundex code of a Latin word, e.g. `R163` for both "Robert"
+ * and "Rupert". Words without Latin letters are returned unchanged.
+ */
+export const soundex = (word: string) => {
+  const letters = word.toLowerCase().replace(/[^a-z]/g, "");
+
+  if (letters === "") return word.toLowerCase();
+
+  let code = letters[0].toUpperCase();
+  let previous = SOUNDEX_CODES[letters[0]] ?? "";
+
+  for (let i = 1; i < letters.length && code.length < 4; i++) {
+    const digit = SOUNDEX_CODES[letters[i]] ?? "";
+
+    if (digit !== "" && digit !== previous) code += digit;
+    // Letters coded alike are only kept apart by a vowel, not by h or w.
+    if (letters[i] !== "h" && letters[i] !== "w") previous = digit;
+  }
+
+  return code.padEnd(4, "0");
+};
+
+/**
+ * The form of a value that `method` compares: its lowercased words, sorted
+ * for `tokenSort` and replaced by their Soundex codes for `phonetic`.
+ */
+export const toFuzzyKey = (value: Cell, method: FuzzyMethod) => {
+  const words =
+    String(value ?? "")
+      .toLowerCase()
+      .match(WORD) ?? [];
+
+  if (method === "tokenSort") return words.sort().join(" ");
+  if (method === "phonetic") return words.map(soundex).join(" ");
+
+  return words.join(" ");
+};
+
+const keySimilarity = (a: string, b: string) =>
+  a === b ? 1 : 1 - editDistance(a, b) / Math.max(a.length, b.length);
+
+/**
+ * How alike two rows' keys are: the average similarity of the columns that
+ * are filled in either row, or null when every column is empty in both.
+ */
+const rowSimilarity = (a: string[], b: string[]) => {
+  let total = 0;
+  let compared = 0;
+
+  a.forEach((key, column) => {
+    if (key === "" && b[column] === "") return;
+    total += key === "" || b[column] === "" ? 0 : keySimilarity(key, b[column]);
+    compared++;
+  });
+
+  return compared === 0 ? null : total / compared;
+};
+
+/**
+ * Groups the rows whose `columns` are at least `threshold` alike into
+ * clusters of likely duplicates. Rows are linked pairwise, so a cluster can
+ * chain rows that are each close to the next. Only rows whose first column
+ * starts with the same character are compared, which keeps large files quick
+ * at the cost of missing typos in the first character. Throws when that
+ * still needs more than `maxComparisons` comparisons.
+ *
+ * `onProgress` is called as the `fuzzy` stage advances.
+ */
+export const findFuzzyClusters = (
+  table: Table,
+  columns: string[],
+  method: FuzzyMethod,
+  threshold: number,
+  onProgress?: ProgressCallback,
+  maxComparisons = MAX_FUZZY_COMPARISONS,
+): FuzzyCluster[] => {
+  const indexes = columns
+    .map((header) => table.headers.indexOf(header))
+    .filter((index) => index !== -1);
+
+  if (indexes.length === 0) return [];
+
+  const keys = table.rows.map((row) =>
+    indexes.map((index) => toFuzzyKey(row[index], method)),
+  );
+  const blocks = new Map<string, number[]>();
+
+  keys.forEach((key, row) => {
+    if (key.every((value) => value === "")) return;
+
+    const block = blocks.get(key[0].charAt(0));
+
+    if (block) block.push(row);
+    else blocks.set(key[0].charAt(0), [row]);
+  });
+
+  const comparisons = Array.from(blocks.values()).reduce(
+    (total, { length }) => total + (length * (length - 1)) / 2,
+    0,
+  );
+
+  if (comparisons > maxComparisons) {
+    throw new Error(
+      `Too many rows to compare for likely duplicates (${comparisons} pairs, at most ${maxComparisons})`,
+    );
+  }
+
+  const report = createStageReporter("fuzzy", comparisons, onProgress);
+  let compared = 0;
+
+  // Union-find over the rows, with the weakest link of each cluster.
+  const parents = table.rows.map((_, row) => row);
+  const scores = table.rows.map(() => 1);
+  const findRoot = (row: number): number => {
+    while (parents[row] !== row) {
+      parents[row] = parents[parents[row]];
+      row = parents[row];
+    }
+
+    return row;
+  };
+
+  blocks.forEach((rows) => {
+    for (let i = 0; i < rows.length; i++) {
+      for (let j = i + 1; j < rows.length; j++) {
+        const score = rowSimilarity(keys[rows[i]], keys[rows[j]]);
+
+        if (score === null || score < threshold) continue;
+
+        const left = findRoot(rows[i]);
+        const right = findRoot(rows[j]);
+
+        if (left === right) continue;
+
+        const root = Math.min(left, right);
+
+        parents[Math.max(left, right)] = root;
+        scores[root] = Math.min(scores[left], scores[right], score);
+      }
+      compared += rows.length - i - 1;
+      report(compared);
+    }
+  });
+  report(comparisons);
+
+  const clusters = new Map<number, number[]>();
+
+  parents.forEach((_, row) => {
+    const root = findRoot(row);
+    const cluster = clusters.get(root);
+
+    if (cluster) cluster.push(row);
+    else clusters.set(root, [row]);
+  });
+
+  return Array.from(clusters.entries())
+    .filter(([, rows]) => rows.length > 1)
+    .map(([root, rows]) => ({ rows, score: scores[root] }));
+};
+
+/**
+ * Collapses each accepted cluster into the row `strategy` picks, kept where
+ * the cluster's first row was. The other rows move to `duplicates`, and the
+ * stats count them as removed duplicates.
+ */
+export const applyFuzzyClusters = (
+  result: CleaningResult,
+  accepted: FuzzyCluster[],
+  strategy: DuplicateStrategy,
+): CleaningResult => {
+  const rows: (Cell[] | null)[] = [...result.table.rows];
+  const rowNumbers = [...result.rowNumbers];
+  const duplicates = [...result.duplicates.rows];
+  let removed = 0;
+  let cellsFilled = 0;
+
+  accepted.forEach((cluster) => {
+    const group = cluster.rows.map((index) => result.table.rows[index]);
+    const survivor = pickSurvivor(group, strategy);
+    const keptNumber = result.rowNumbers[cluster.rows[survivor.index]];
+
+    cluster.rows.forEach((index, i) => {
+      if (i === survivor.index) return;
+      duplicates.push([
+        result.rowNumbers[index],
+        keptNumber,
+        ...result.table.rows[index],
+      ]);
+      rows[index] = null;
+      removed++;
+    });
+    // The survivor moves up to where the cluster's first row was.
+    rows[cluster.rows[survivor.index]] = null;
+    rows[cluster.rows[0]] = survivor.row;
+    rowNumbers[cluster.rows[0]] = keptNumber;
+    cellsFilled += survivor.cellsFilled;
+  });
+
+  const kept = rows.flatMap((row, i) => (row ? [i] : []));
+
+  return {
+    ...result,
+    table: { ...result.table, rows: kept.map((i) => rows[i] as Cell[]) },
+    rowNumbers: kept.map((i) => rowNumbers[i]),
+    duplicates: { ...result.duplicates, rows: duplicates },
+    fuzzyClusters: [],
+    totalRowsCleaned: result.totalRowsCleaned - removed,
+    duplicateRowsRemoved: result.duplicateRowsRemoved + removed,
+    steps: result.steps.map((step) =>
+      step.id === "removeDuplicates"
+        ? {
+            ...step,
+            rowsRemoved: step.rowsRemoved + removed,
+            cellsChanged: step.cellsChanged + cellsFilled,
+          }
+        : step,
+    ),
+  };
+};
@@ -0,0 +1,23 @@
+import { Cell } from "./types";
+
+// 32-bit FNV-1a over UTF-16 code units.
+const fnv1a = (text: string, seed: number) => {
+  let hash = seed;
+
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+
+  return hash >>> 0;
+};
+
+/**
+ * Returns a compact 64-bit key for a row, so duplicate detection over streamed
+ * files keeps a fixed-size entry per unique row instead of the row itself.
+ */
+export const hashRow = (row: Cell[]) => {
+  const text = JSON.stringify(row);
+
+  return `${fnv1a(text, 0x811c9dc5).toString(36)}:${fnv1a(text, 0x050c5d1f).toString(36)}`;
+};
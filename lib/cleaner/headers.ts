@@ -0,0 +1,115 @@
+import { HeaderMatch } from "./types";
+
+/** Below this confidence a near-match is not worth proposing. */
+export const MIN_HEADER_CONFIDENCE = 0.7;
+
+const SEPARATORS = new RegExp(String.raw`[^\p{L}\p{N}]+`, "gu");
+
+/**
+ * Reduces a header to lowercase words, so `Start Date`, `start_date`,
+ * `Start-Date ` and `StartDate` all read as `start date`.
+ */
+export const normalizeHeader = (header: string) =>
+  header
+    .normalize("NFKC")
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .toLowerCase()
+    .replace(SEPARATORS, " ")
+    .trim();
+
+/**
+ * Edits (insertions, deletions, substitutions and swaps of neighbouring
+ * characters) needed to turn one string into the other.
+ */
+export const editDistance = (a: string, b: string) => {
+  // Rows i-2, i-1 and i of the distance matrix.
+  let before = new Array<number>(b.length + 1).fill(0);
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + cost,
+      );
+
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], before[j - 2] + 1);
+      }
+    }
+    before = previous;
+    previous = current;
+  }
+
+  return previous[b.length];
+};
+
+/**
+ * Scores how likely two headers name the same column, from 0 to 1. Headers
+ * that only differ in case, spacing or punctuation score 1.
+ */
+export const headerSimilarity = (a: string, b: string) => {
+  const left = normalizeHeader(a).replace(/ /g, "");
+  const right = normalizeHeader(b).replace(/ /g, "");
+  const length = Math.max(left.length, right.length);
+
+  if (length === 0) return 0;
+
+  return 1 - editDistance(left, right) / length;
+};
+
+/**
+ * Proposes a data column for each template header that has no data column of
+ * exactly the same name, best matches first, using each data column at most
+ * once. Headers already in `mapping` are left out.
+ */
+export const proposeHeaderMatches = (
+  dataHeaders: string[],
+  templateHeaders: string[],
+  mapping: Record<string, string | null> = {},
+  minConfidence = MIN_HEADER_CONFIDENCE,
+): HeaderMatch[] => {
+  const mapped = Object.values(mapping);
+  const openTemplateHeaders = templateHeaders.filter(
+    (header) => !(header in mapping) && !dataHeaders.includes(header),
+  );
+  const openDataHeaders = dataHeaders.filter(
+    (header) => !templateHeaders.includes(header) && !mapped.includes(header),
+  );
+  const candidates: HeaderMatch[] = [];
+
+  openTemplateHeaders.forEach((templateHeader) => {
+    openDataHeaders.forEach((dataHeader) => {
+      const confidence = headerSimilarity(dataHeader, templateHeader);
+
+      if (confidence >= minConfidence) {
+        candidates.push({ templateHeader, dataHeader, confidence });
+      }
+    });
+  });
+
+  const matches: HeaderMatch[] = [];
+
+  candidates
+    .sort((a, b) => b.confidence - a.confidence)
+    .forEach((candidate) => {
+      const taken = matches.some(
+        ({ templateHeader, dataHeader }) =>
+          templateHeader === candidate.templateHeader ||
+          dataHeader === candidate.dataHeader,
+      );
+
+      if (!taken) matches.push(candidate);
+    });
+
+  return matches.sort(
+    (a, b) =>
+      templateHeaders.indexOf(a.templateHeader) -
+      templateHeaders.indexOf(b.templateHeader),
+  );
+};
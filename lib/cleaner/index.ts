@@ -0,0 +1,177 @@
+export * from "./types";
+export { isEmptyCell } from "./cells";
+export {
+  cleanData,
+  createCleaner,
+  createColumnScanner,
+  findEmptyColumns,
+  findLikelyDuplicates,
+  findSourceColumn,
+  matchColumns,
+  needsColumnScan,
+  DEFAULT_CLEANING_OPTIONS,
+} from "./clean";
+export type { Cleaner, ColumnScan } from "./clean";
+export {
+  DATE_CALENDAR_LABELS,
+  DATE_FORMATS,
+  DATE_INPUT_FORMAT_LABELS,
+  DEFAULT_DATE_FORMAT,
+  addDateStats,
+  createDateStats,
+  excelSerialToDate,
+  formatDate,
+  isDateHeader,
+  parseDate,
+  planDateColumn,
+  readDate,
+  resolveDate,
+  toCalendar,
+  toValidDate,
+} from "./dates";
+export type {
+  DateColumnPlan,
+  DateColumnStats,
+  DateParts,
+  DateReading,
+} from "./dates";
+export { detectFileTypes } from "./detect";
+export {
+  DUPLICATE_STRATEGY_LABELS,
+  createDuplicateKey,
+  pickSurvivor,
+} from "./duplicates";
+export {
+  DEFAULT_FUZZY_THRESHOLD,
+  FUZZY_METHOD_LABELS,
+  MAX_FUZZY_COMPARISONS,
+  applyFuzzyClusters,
+  findFuzzyClusters,
+  soundex,
+  toFuzzyKey,
+} from "./fuzzy";
+export {
+  MIN_HEADER_CONFIDENCE,
+  editDistance,
+  headerSimilarity,
+  normalizeHeader,
+  proposeHeaderMatches,
+} from "./headers";
+export {
+  gregorianToJalali,
+  isJalaliLeapYear,
+  jalaliMonthLength,
+  jalaliToGregorian,
+  toValidJalaliDate,
+} from "./jalali";
+export {
+  getDownloadFilename,
+  getOutputFilenames,
+  rowsToCsv,
+  tableToBlob,
+  tableToCsv,
+  tableToXlsx,
+} from "./export";
+export { SOURCE_FILE_HEADER, cleanMergedData, mergeTables } from "./merge";
+export type { MergedTable } from "./merge";
+export {
+  readCleaningOptions,
+  readColumnMapping,
+  readColumnRules,
+} from "./options";
+export {
+  isSupportedFile,
+  parseCsv,
+  parseFile,
+  parseWorkbook,
+  toTable,
+} from "./parse";
+export { PREVIEW_SAMPLE_ROWS, previewCleaning } from "./preview";
+export type { CleaningPreview, PreviewRow } from "./preview";
+export { MIN_TYPE_SHARE, profileColumn, profileTable } from "./profile";
+export {
+  CLEANING_STAGES,
+  STAGE_LABELS,
+  createStageReporter,
+  getCleaningPercent,
+} from "./progress";
+export {
+  RECIPE_VERSION,
+  createRecipe,
+  decodeRecipe,
+  encodeRecipe,
+  parseRecipe,
+  serializeRecipe,
+} from "./recipe";
+export type { CleaningRecipe } from "./recipe";
+export {
+  CLEANING_STEP_LABELS,
+  COLUMN_STEPS,
+  DEFAULT_CLEANING_STEPS,
+  ROW_STEPS,
+  enableSteps,
+  isStepEnabled,
+  isStepEnabledForColumn,
+  isStepUsed,
+  moveStep,
+  withDefaultSteps,
+} from "./steps";
+export {
+  MAX_STREAMED_AUDIT_ROWS,
+  MAX_WORKBOOK_BYTES,
+  STREAMING_THRESHOLD_BYTES,
+  STREAM_SAMPLE_ROWS,
+  cleanCsvStream,
+  scanCsv,
+  shouldStreamFile,
+  streamCsv,
+} from "./stream";
+export type { CsvStreamHandlers } from "./stream";
+export {
+  CHARACTER_CATEGORY_LABELS,
+  DIGIT_SCRIPT_LABELS,
+  createCharacterFilter,
+  normalizePersian,
+  normalizeText,
+  toDigitScript,
+} from "./text";
+export {
+  COLUMN_TYPE_LABELS,
+  MAX_VIOLATIONS,
+  createValidator,
+  matchesColumnType,
+  parseColumnAnnotation,
+  parseSchemaJson,
+  readSavedSchema,
+  readTemplateSchema,
+  validateValue,
+} from "./validate";
+export {
+  VALUE_CLUSTER_METHOD_LABELS,
+  countValues,
+  findValueClusters,
+  fingerprint,
+  mapValue,
+  mergeValues,
+  ngramFingerprint,
+} from "./values";
+export {
+  MAX_ZIP_BYTES,
+  MAX_ZIP_ENTRIES,
+  createZip,
+  crc32,
+  zipBlobs,
+  zipFiles,
+} from "./zip";
+export type { ZipEntry, ZipSource } from "./zip";
+export {
+  cleanDataInWorker,
+  cleanFileInWorker,
+  cleanMergedDataInWorker,
+  countValuesInWorker,
+  isAbortError,
+  parseFileInWorker,
+  scanFileInWorker,
+  zipFilesInWorker,
+} from "./worker-client";
+export type { WorkerTaskOptions } from "./worker-client";
@@ -0,0 +1,131 @@
+import type { DateParts } from "./dates";
+
+// Jalali years at which the 33-year leap cycle shifts, from the jalaali
+// calendar algorithm by Kazimierz M. Borkowski.
+const BREAKS = [
+  -61, 9, 38, 199, 426, 686, 756, 818, 1111, 1181, 1210, 1635, 2060, 2097, 2192,
+  2262, 2324, 2394, 2456, 3178,
+];
+
+const div = (a: number, b: number) => Math.trunc(a / b);
+const mod = (a: number, b: number) => a - Math.trunc(a / b) * b;
+
+/**
+ * Whether the algorithm covers the Jalali year.
+ */
+export const isSupportedJalaliYear = (year: number) =>
+  year >= BREAKS[0] && year < BREAKS[BREAKS.length - 1];
+
+// Leap-year position, Gregorian year and March day of Farvardin 1st.
+const jalaliCalendar = (jy: number) => {
+  const gy = jy + 621;
+  let leapJ = -14;
+  let jp = BREAKS[0];
+  let jump = 0;
+
+  for (let i = 1; i < BREAKS.length; i++) {
+    const jm = BREAKS[i];
+
+    jump = jm - jp;
+    if (jy < jm) break;
+    leapJ += div(jump, 33) * 8 + div(mod(jump, 33), 4);
+    jp = jm;
+  }
+
+  let n = jy - jp;
+
+  leapJ += div(n, 33) * 8 + div(mod(n, 33) + 3, 4);
+  if (mod(jump, 33) === 4 && jump - n === 4) leapJ++;
+
+  const leapG = div(gy, 4) - div((div(gy, 100) + 1) * 3, 4) - 150;
+  const march = 20 + leapJ - leapG;
+
+  if (jump - n < 6) n = n - jump + div(jump + 4, 33) * 33;
+
+  const leap = mod(mod(n + 1, 33) - 1, 4);
+
+  return { leap: leap === -1 ? 4 : leap, gy, march };
+};
+
+const gregorianToDayNumber = (gy: number, gm: number, gd: number) => {
+  const d =
+    div((gy + div(gm - 8, 6) + 100100) * 1461, 4) +
+    div(153 * mod(gm + 9, 12) + 2, 5) +
+    gd -
+    34840408;
+
+  return d - div(div(gy + 100100 + div(gm - 8, 6), 100) * 3, 4) + 752;
+};
+
+const dayNumberToGregorian = (dayNumber: number): DateParts => {
+  let j = 4 * dayNumber + 139361631;
+
+  j += div(div(4 * dayNumber + 183187720, 146097) * 3, 4) * 4 - 3908;
+
+  const i = div(mod(j, 1461), 4) * 5 + 308;
+  const day = div(mod(i, 153), 5) + 1;
+  const month = mod(div(i, 153), 12) + 1;
+
+  return { year: div(j, 1461) - 100100 + div(8 - month, 6), month, day };
+};
+
+export const isJalaliLeapYear = (year: number) =>
+  jalaliCalendar(year).leap === 0;
+
+export const jalaliMonthLength = (year: number, month: number) => {
+  if (month <= 6) return 31;
+  if (month <= 11) return 30;
+
+  return isJalaliLeapYear(year) ? 30 : 29;
+};
+
+/**
+ * Returns the parts if they form a real Jalali date.
+ */
+export const toValidJalaliDate = (
+  year: number,
+  month: number,
+  day: number,
+): DateParts | null =>
+  isSupportedJalaliYear(year) &&
+  month >= 1 &&
+  month <= 12 &&
+  day >= 1 &&
+  day <= jalaliMonthLength(year, month)
+    ? { year, month, day }
+    : null;
+
+export const jalaliToGregorian = ({ year, month, day }: DateParts) => {
+  const { gy, march } = jalaliCalendar(year);
+
+  return dayNumberToGregorian(
+    gregorianToDayNumber(gy, 3, march) +
+      (month - 1) * 31 -
+      div(month, 7) * (month - 7) +
+      day -
+      1,
+  );
+};
+
+export const gregorianToJalali = ({
+  year,
+  month,
+  day,
+}: DateParts): DateParts => {
+  const dayNumber = gregorianToDayNumber(year, month, day);
+  let jy = year - 621;
+  const { leap, march } = jalaliCalendar(jy);
+  let k = dayNumber - gregorianToDayNumber(year, 3, march);
+
+  if (k >= 0) {
+    if (k <= 185) {
+      return { year: jy, month: 1 + div(k, 31), day: mod(k, 31) + 1 };
+    }
+    k -= 186;
+  } else {
+    jy--;
+    k += leap === 1 ? 180 : 179;
+  }
+
+  return { year: jy, month: 7 + div(k, 30), day: mod(k, 30) + 1 };
+};
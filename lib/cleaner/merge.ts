@@ -0,0 +1,173 @@
+import {
+  ColumnScan,
+  createCleaner,
+  createColumnScanner,
+  findLikelyDuplicates,
+  findSourceColumn,
+  needsColumnScan,
+} from "./clean";
+import { createStageReporter } from "./progress";
+import { COLUMN_STEPS } from "./steps";
+import {
+  Cell,
+  CleaningOptions,
+  CleaningResult,
+  NamedTable,
+  ProgressCallback,
+  Table,
+} from "./types";
+
+/** The column naming the file each merged row came from. */
+export const SOURCE_FILE_HEADER = "Source File";
+
+export interface MergedTable {
+  /** The stacked rows, under the template headers any file feeds. */
+  table: Table;
+  /** Each row's number in its own file, counting the header row as 1. */
+  rowNumbers: number[];
+  /** Distinct data headers that feed no template header. */
+  unusedColumns: string[];
+}
+
+/**
+ * Stacks data files onto the template's columns, aligning each file's columns
+ * by `mapping` the way `cleanData` does, so files with differently ordered
+ * columns line up. The last column is `Source File`. Template headers no file
+ * feeds are left out, and a file without a column others have gets blanks.
+ */
+export const mergeTables = (
+  files: NamedTable[],
+  templateHeaders: string[],
+  mapping: Record<string, string | null> = {},
+): MergedTable => {
+  const sources = files.map(({ table }) =>
+    templateHeaders.map((header) =>
+      findSourceColumn(table.headers, header, mapping),
+    ),
+  );
+  const columns = templateHeaders.flatMap((_, i) =>
+    sources.some((fileSources) => fileSources[i] !== -1) ? [i] : [],
+  );
+  const rows: Cell[][] = [];
+  const rowNumbers: number[] = [];
+  const unusedColumns = new Set<string>();
+
+  files.forEach(({ name, table }, f) => {
+    table.headers.forEach((header, index) => {
+      if (!sources[f].includes(index)) unusedColumns.add(header);
+    });
+
+    table.rows.forEach((row, r) => {
+      rows.push([
+        ...columns.map((i) =>
+          sources[f][i] === -1 ? "" : (row[sources[f][i]] ?? ""),
+        ),
+        name,
+      ]);
+      rowNumbers.push(r + 2);
+    });
+  });
+
+  return {
+    table: {
+      headers: [...columns.map((i) => templateHeaders[i]), SOURCE_FILE_HEADER],
+      rows,
+    },
+    rowNumbers,
+    unusedColumns: Array.from(unusedColumns),
+  };
+};
+
+/**
+ * Merges the data files with `mergeTables` and cleans them as one table, so
+ * steps like duplicate removal and date detection see every file at once.
+ * With `options.sourceFileColumn` each cleaned row ends with the name of its
+ * file, which no step changes and duplicate removal ignores; rejects always
+ * carry it, next to the row's number in that file.
+ *
+ * `onProgress` is called as each stage in `CLEANING_STAGES` advances, then
+ * as the search for likely duplicates does.
+ */
+export const cleanMergedData = (
+  files: NamedTable[],
+  template: Table,
+  options: CleaningOptions,
+  onProgress?: ProgressCallback,
+): CleaningResult => {
+  const merged = mergeTables(files, template.headers, options.columnMapping);
+  const templateHeaders = options.sourceFileColumn
+    ? [...template.headers, SOURCE_FILE_HEADER]
+    : template.headers;
+  const mergedOptions: CleaningOptions = {
+    ...options,
+    // The merged columns already sit under their template headers.
+    columnMapping: {},
+    columnRules: {
+      ...options.columnRules,
+      [SOURCE_FILE_HEADER]: {
+        steps: Object.fromEntries(COLUMN_STEPS.map((id) => [id, false])),
+      },
+    },
+  };
+  const data = merged.table;
+  const total = data.rows.length;
+  const reportScan = createStageReporter("scan", total, onProgress);
+  let scan: ColumnScan | undefined;
+
+  if (needsColumnScan(mergedOptions)) {
+    const scanner = createColumnScanner(
+      data.headers,
+      templateHeaders,
+      mergedOptions,
+    );
+
+    data.rows.forEach((row, i) => {
+      scanner.add([row]);
+      reportScan(i + 1);
+    });
+    scan = scanner.getScan();
+  }
+
+  reportScan(total);
+
+  const cleaner = createCleaner(
+    data.headers,
+    templateHeaders,
+    mergedOptions,
+    scan,
+    Infinity,
+    false,
+    [SOURCE_FILE_HEADER],
+  );
+  const reportClean = createStageReporter("clean", total, onProgress);
+  const rows: Cell[][] = [];
+  const rowNumbers: number[] = [];
+
+  data.rows.forEach((raw, i) => {
+    const row = cleaner.cleanRow(raw, merged.rowNumbers[i]);
+
+    if (row) {
+      rows.push(row);
+      rowNumbers.push(merged.rowNumbers[i]);
+    }
+    reportClean(i + 1);
+  });
+
+  const held = cleaner.finish();
+
+  rows.push(...held.rows);
+  rowNumbers.push(...held.rowNumbers);
+  reportClean(total);
+
+  const table = { headers: cleaner.headers, rows };
+
+  return {
+    table,
+    rowNumbers,
+    rejects: cleaner.getRejects(),
+    duplicates: cleaner.getDuplicates(),
+    fuzzyClusters: findLikelyDuplicates(table, mergedOptions, onProgress),
+    ...cleaner.getStats(),
+    columnsDeleted: merged.unusedColumns.length,
+  };
+};
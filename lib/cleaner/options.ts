@@ -0,0 +1,217 @@
+import { DEFAULT_CLEANING_OPTIONS } from "./clean";
+import { DATE_CALENDAR_LABELS } from "./dates";
+import { DUPLICATE_STRATEGY_LABELS } from "./duplicates";
+import { FUZZY_METHOD_LABELS } from "./fuzzy";
+import { CLEANING_STEP_LABELS, withDefaultSteps } from "./steps";
+import { CHARACTER_CATEGORY_LABELS, DIGIT_SCRIPT_LABELS } from "./text";
+import {
+  AmbiguousDateHandling,
+  CharacterCategory,
+  CleaningOptions,
+  CleaningStep,
+  CleaningStepId,
+  ColumnRule,
+  DateCalendar,
+  NormalizationForm,
+} from "./types";
+import { readSavedSchema } from "./validate";
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === "string");
+
+const isStepId = (value: unknown): value is CleaningStepId =>
+  typeof value === "string" && Object.hasOwn(CLEANING_STEP_LABELS, value);
+
+const NORMALIZATION_FORMS: NormalizationForm[] = ["NFC", "NFKC"];
+const AMBIGUOUS_DATE_HANDLING: AmbiguousDateHandling[] = [
+  "flag",
+  "monthFirst",
+  "dayFirst",
+];
+
+/** `value` when it is one of `options`' keys, otherwise `fallback`. */
+const readKey = <T extends string>(
+  value: unknown,
+  options: Record<T, unknown> | T[],
+  fallback: T,
+): T =>
+  typeof value === "string" &&
+  (Array.isArray(options)
+    ? options.includes(value as T)
+    : Object.hasOwn(options, value))
+    ? (value as T)
+    : fallback;
+
+/**
+ * Reads a column mapping, keeping only entries that name a data header or
+ * are null.
+ */
+export const readColumnMapping = (value: unknown) => {
+  const mapping: Record<string, string | null> = {};
+
+  if (!isRecord(value)) return mapping;
+
+  Object.entries(value).forEach(([header, source]) => {
+    if (source === null || typeof source === "string") {
+      mapping[header] = source;
+    }
+  });
+
+  return mapping;
+};
+
+const readStringRecord = (value: unknown) => {
+  const record: Record<string, string> = {};
+
+  if (!isRecord(value)) return record;
+
+  Object.entries(value).forEach(([key, item]) => {
+    if (typeof item === "string") record[key] = item;
+  });
+
+  return record;
+};
+
+const readColumnRule = (value: unknown): ColumnRule | null => {
+  if (!isRecord(value) || !isRecord(value.steps)) return null;
+
+  const rule: ColumnRule = { steps: {} };
+
+  Object.entries(value.steps).forEach(([id, enabled]) => {
+    if (isStepId(id) && typeof enabled === "boolean") rule.steps[id] = enabled;
+  });
+
+  if (typeof value.characterAllowlist === "string") {
+    rule.characterAllowlist = value.characterAllowlist;
+  }
+
+  const { dateOutput } = value;
+  const valueMap = readStringRecord(value.valueMap);
+
+  if (
+    isRecord(dateOutput) &&
+    typeof dateOutput.format === "string" &&
+    typeof dateOutput.calendar === "string" &&
+    Object.hasOwn(DATE_CALENDAR_LABELS, dateOutput.calendar)
+  ) {
+    rule.dateOutput = {
+      calendar: dateOutput.calendar as DateCalendar,
+      format: dateOutput.format,
+    };
+  }
+
+  if (Object.keys(valueMap).length > 0) rule.valueMap = valueMap;
+
+  return rule;
+};
+
+/**
+ * Reads per-column rules, leaving out entries without a `steps` object and
+ * any setting of the wrong shape.
+ */
+export const readColumnRules = (value: unknown) => {
+  const rules: Record<string, ColumnRule> = {};
+
+  if (!isRecord(value)) return rules;
+
+  Object.entries(value).forEach(([header, rule]) => {
+    const columnRule = readColumnRule(rule);
+
+    if (columnRule) rules[header] = columnRule;
+  });
+
+  return rules;
+};
+
+const readSteps = (value: unknown): CleaningStep[] =>
+  withDefaultSteps(
+    Array.isArray(value)
+      ? value.filter(
+          (step): step is CleaningStep =>
+            isRecord(step) &&
+            isStepId(step.id) &&
+            typeof step.enabled === "boolean",
+        )
+      : [],
+  );
+
+/**
+ * Reads cleaning options saved outside the app's control, such as in a
+ * recipe file or link. Each option that is missing or malformed falls back
+ * to its default, so the options are always safe to clean with.
+ */
+export const readCleaningOptions = (value: unknown): CleaningOptions => {
+  const options = isRecord(value) ? value : {};
+  const defaults = DEFAULT_CLEANING_OPTIONS;
+  const readBoolean = (key: keyof CleaningOptions) =>
+    typeof options[key] === "boolean"
+      ? (options[key] as boolean)
+      : (defaults[key] as boolean);
+  const readString = (key: keyof CleaningOptions) =>
+    typeof options[key] === "string"
+      ? (options[key] as string)
+      : (defaults[key] as string);
+
+  return {
+    columnMapping: readColumnMapping(options.columnMapping),
+    schema: readSavedSchema(options.schema),
+    emitMissingColumns: readBoolean("emitMissingColumns"),
+    missingColumnValue: readString("missingColumnValue"),
+    sourceFileColumn: readBoolean("sourceFileColumn"),
+    steps: readSteps(options.steps),
+    columnRules: readColumnRules(options.columnRules),
+    duplicateKeys: isStringArray(options.duplicateKeys)
+      ? options.duplicateKeys
+      : defaults.duplicateKeys,
+    duplicateStrategy: readKey(
+      options.duplicateStrategy,
+      DUPLICATE_STRATEGY_LABELS,
+      defaults.duplicateStrategy,
+    ),
+    fuzzyColumns: isStringArray(options.fuzzyColumns)
+      ? options.fuzzyColumns
+      : defaults.fuzzyColumns,
+    fuzzyMethod: readKey(
+      options.fuzzyMethod,
+      FUZZY_METHOD_LABELS,
+      defaults.fuzzyMethod,
+    ),
+    fuzzyThreshold:
+      typeof options.fuzzyThreshold === "number" &&
+      options.fuzzyThreshold >= 0 &&
+      options.fuzzyThreshold <= 1
+        ? options.fuzzyThreshold
+        : defaults.fuzzyThreshold,
+    digitScript: readKey(
+      options.digitScript,
+      DIGIT_SCRIPT_LABELS,
+      defaults.digitScript,
+    ),
+    keepCharacterCategories: Array.isArray(options.keepCharacterCategories)
+      ? options.keepCharacterCategories.filter(
+          (category): category is CharacterCategory =>
+            typeof category === "string" &&
+            Object.hasOwn(CHARACTER_CATEGORY_LABELS, category),
+        )
+      : defaults.keepCharacterCategories,
+    normalizationForm: readKey(
+      options.normalizationForm,
+      NORMALIZATION_FORMS,
+      defaults.normalizationForm,
+    ),
+    dateFormat: readString("dateFormat"),
+    dateCalendar: readKey(
+      options.dateCalendar,
+      DATE_CALENDAR_LABELS,
+      defaults.dateCalendar,
+    ),
+    ambiguousDates: readKey(
+      options.ambiguousDates,
+      AMBIGUOUS_DATE_HANDLING,
+      defaults.ambiguousDates,
+    ),
+  };
+};
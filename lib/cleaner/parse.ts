@@ -0,0 +1,103 @@
+import * as XLSX from "xlsx";
+import Papa from "papaparse";
+
+import { createStageReporter } from "./progress";
+import { Cell, ProgressCallback, Table } from "./types";
+
+const XLSX_MIME_TYPE =
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+/**
+ * Whether the file is a CSV or XLSX file the cleaner can parse.
+ */
+export const isSupportedFile = (file: { name: string; type: string }) =>
+  file.type === "text/csv" ||
+  file.name.endsWith(".csv") ||
+  file.type === XLSX_MIME_TYPE ||
+  file.name.endsWith(".xlsx");
+
+/**
+ * Splits an array of rows into a table, treating the first row as the header.
+ */
+export const toTable = (data: Cell[][]): Table => {
+  const [headerRow = [], ...rows] = data;
+
+  return {
+    headers: headerRow.map((header) => String(header ?? "")),
+    rows,
+  };
+};
+
+/**
+ * Parses CSV text into a table, reporting progress by characters consumed.
+ */
+export const parseCsv = (
+  text: string,
+  onProgress?: ProgressCallback,
+): Table => {
+  const report = createStageReporter("parse", text.length, onProgress);
+  const data: Cell[][] = [];
+
+  Papa.parse<Cell[]>(text, {
+    header: false,
+    skipEmptyLines: true,
+    step: (results) => {
+      data.push(results.data);
+      report(results.meta.cursor);
+    },
+  });
+  report(text.length);
+
+  return toTable(data);
+};
+
+/**
+ * Parses the first sheet of an XLSX workbook into a table.
+ */
+export const parseWorkbook = (
+  buffer: ArrayBuffer,
+  onProgress?: ProgressCallback,
+): Table => {
+  // SheetJS parses in one go, so report the read and the row conversion as
+  // two halves of the stage.
+  const report = createStageReporter("parse", 2, onProgress);
+
+  report(0);
+  const workbook = XLSX.read(buffer, { type: "array" });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+
+  report(1);
+
+  if (!sheet) {
+    report(2);
+
+    return { headers: [], rows: [] };
+  }
+
+  const data = XLSX.utils.sheet_to_json<Cell[]>(sheet, {
+    header: 1,
+    defval: "",
+  });
+
+  report(2);
+
+  return toTable(data);
+};
+
+/**
+ * Reads a CSV or XLSX file and parses it into a table.
+ */
+export const parseFile = async (
+  file: File,
+  onProgress?: ProgressCallback,
+): Promise<Table> => {
+  if (file.name.endsWith(".csv")) {
+    return parseCsv(await file.text(), onProgress);
+  }
+
+  if (file.name.endsWith(".xlsx")) {
+    return parseWorkbook(await file.arrayBuffer(), onProgress);
+  }
+
+  throw new Error("Unsupported file format");
+};
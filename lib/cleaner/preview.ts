@@ -0,0 +1,78 @@
+import { cleanData, matchColumns } from "./clean";
+import { Cell, CleaningOptions, Table } from "./types";
+
+/** Data rows the Step 2 preview cleans. */
+export const PREVIEW_SAMPLE_ROWS = 200;
+
+/**
+ * A cleaned sample row next to the raw values it came from.
+ */
+export interface PreviewRow {
+  /** The row's number in the data file, counting the header row as 1. */
+  rowNumber: number;
+  cells: Cell[];
+  /** The raw value of each cell, empty for columns without a source. */
+  original: Cell[];
+  /** Whether cleaning changed each cell. */
+  changed: boolean[];
+}
+
+export interface CleaningPreview {
+  headers: string[];
+  rows: PreviewRow[];
+  /** How many rows of the data file were cleaned. */
+  sampleRows: number;
+  /** Sample rows the steps removed or moved to the rejects. */
+  rowsRemoved: number;
+}
+
+const toText = (cell: Cell) => (cell === null ? "" : String(cell));
+
+/**
+ * Cleans the first `sampleRows` rows of the data file the way `cleanData`
+ * would, pairing every cleaned cell with its raw value so changes can be
+ * shown before the whole file is cleaned. Likely duplicates are not looked
+ * for, and steps that look at whole columns only see the sample.
+ */
+export const previewCleaning = (
+  data: Table,
+  template: Table,
+  options: CleaningOptions,
+  sampleRows = PREVIEW_SAMPLE_ROWS,
+): CleaningPreview => {
+  const sample = {
+    headers: data.headers,
+    rows: data.rows.slice(0, sampleRows),
+  };
+  const result = cleanData(sample, template, { ...options, fuzzyColumns: [] });
+  const sources = new Map(
+    matchColumns(data.headers, template.headers, options.columnMapping).map(
+      ({ header, index }) => [header, index],
+    ),
+  );
+  const columns = result.table.headers.map(
+    (header) => sources.get(header) ?? -1,
+  );
+
+  return {
+    headers: result.table.headers,
+    rows: result.table.rows.map((cells, i) => {
+      const rowNumber = result.rowNumbers[i];
+      const raw = sample.rows[rowNumber - 2];
+      const original = columns.map((column) =>
+        column === -1 ? "" : (raw[column] ?? ""),
+      );
+
+      return {
+        rowNumber,
+        cells,
+        original,
+        changed: cells.map(
+          (cell, column) => toText(cell) !== toText(original[column]),
+        ),
+      };
+    }),
+    sampleRows: sample.rows.length,
+    rowsRemoved: sample.rows.length - result.table.rows.length,
+  };
+};
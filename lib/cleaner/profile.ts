@@ -0,0 +1,113 @@
+import { parseDate } from "./dates";
+import { STREAM_SAMPLE_ROWS } from "./stream";
+import { Cell, ColumnProfile, ColumnType, LengthBucket, Table } from "./types";
+import { matchesColumnType } from "./validate";
+import { countValues } from "./values";
+
+/** Types a column can be inferred as, most specific first. */
+const INFERRED_TYPES: ColumnType[] = [
+  "integer",
+  "decimal",
+  "date",
+  "email",
+  "phone",
+];
+
+/** Share of a column's non-empty values that must fit a type to infer it. */
+export const MIN_TYPE_SHARE = 0.9;
+
+const TOP_VALUES = 5;
+const MALFORMED_SAMPLES = 5;
+const LENGTH_RANGES: [number, number | null][] = [
+  [1, 5],
+  [6, 10],
+  [11, 20],
+  [21, 50],
+  [51, null],
+];
+
+const toSortKey = (value: string, type: ColumnType): number | string | null => {
+  if (type === "integer" || type === "decimal") return Number(value);
+
+  if (type === "date") {
+    const parts = parseDate(value);
+
+    return parts && parts.year * 10000 + parts.month * 100 + parts.day;
+  }
+
+  return value;
+};
+
+const compareKeys = (a: number | string, b: number | string) =>
+  typeof a === "number" && typeof b === "number"
+    ? a - b
+    : String(a).localeCompare(String(b));
+
+/**
+ * Profiles one column's raw cells: its inferred type, how many cells are
+ * empty or distinct, its most common, smallest and largest values, the
+ * lengths of its values, and the values that do not fit its type.
+ */
+export const profileColumn = (header: string, cells: Cell[]): ColumnProfile => {
+  const values = cells.flatMap((cell) =>
+    cell === null || String(cell).trim() === "" ? [] : [String(cell).trim()],
+  );
+  const counts = countValues(cells);
+  const type =
+    values.length === 0
+      ? "string"
+      : (INFERRED_TYPES.find(
+          (candidate) =>
+            values.filter((value) => matchesColumnType(value, candidate))
+              .length >=
+            values.length * MIN_TYPE_SHARE,
+        ) ?? "string");
+  const malformed = values.filter((value) => !matchesColumnType(value, type));
+  let min: { value: string; key: number | string } | null = null;
+  let max: { value: string; key: number | string } | null = null;
+
+  for (const value of values) {
+    const key = matchesColumnType(value, type) ? toSortKey(value, type) : null;
+
+    if (key === null) continue;
+    if (!min || compareKeys(key, min.key) < 0) min = { value, key };
+    if (!max || compareKeys(key, max.key) > 0) max = { value, key };
+  }
+
+  const lengths: LengthBucket[] = LENGTH_RANGES.map(([from, to]) => ({
+    min: from,
+    max: to,
+    count: values.filter(
+      ({ length }) => length >= from && (to === null || length <= to),
+    ).length,
+  }));
+
+  return {
+    header,
+    type,
+    rowCount: cells.length,
+    emptyCount: cells.length - values.length,
+    distinctCount: counts.length,
+    topValues: counts.slice(0, TOP_VALUES),
+    min: min?.value ?? null,
+    max: max?.value ?? null,
+    lengths,
+    malformedCount: malformed.length,
+    malformedSamples: Array.from(new Set(malformed)).slice(
+      0,
+      MALFORMED_SAMPLES,
+    ),
+  };
+};
+
+/**
+ * Profiles every column of a table from its first `sampleRows` rows, the same
+ * sample a streamed file keeps.
+ */
+export const profileTable = (table: Table, sampleRows = STREAM_SAMPLE_ROWS) =>
+  table.headers.map((header, index) =>
+    profileColumn(
+      header,
+      table.rows.slice(0, sampleRows).map((row) => row[index] ?? null),
+    ),
+  );
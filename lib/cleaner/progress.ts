@@ -0,0 +1,52 @@
+import { CleaningProgress, CleaningStage, ProgressCallback } from "./types";
+
+/**
+ * The stages `cleanData` runs through, in order. Parsing happens on upload and
+ * is reported separately, as is streaming, which runs every stage per chunk,
+ * and the search for likely duplicates, which only some cleanings run.
+ */
+export const CLEANING_STAGES: CleaningStage[] = ["scan", "clean"];
+
+export const STAGE_LABELS: Record<CleaningStage, string> = {
+  parse: "Parsing file",
+  scan: "Scanning columns",
+  clean: "Running cleaning steps",
+  stream: "Cleaning file in chunks",
+  fuzzy: "Looking for likely duplicates",
+};
+
+/**
+ * Returns a function that reports progress through `total` items of a stage,
+ * only calling `onProgress` when the whole-number percentage changes.
+ */
+export const createStageReporter = (
+  stage: CleaningStage,
+  total: number,
+  onProgress?: ProgressCallback,
+) => {
+  let lastPercent = -1;
+
+  return (done: number) => {
+    if (!onProgress) return;
+
+    const percent =
+      total > 0 ? Math.min(100, Math.floor((done / total) * 100)) : 100;
+
+    if (percent !== lastPercent) {
+      lastPercent = percent;
+      onProgress({ stage, percent });
+    }
+  };
+};
+
+/**
+ * Maps a per-stage progress event onto a single 0-100 value across all
+ * cleaning stages.
+ */
+export const getCleaningPercent = ({ stage, percent }: CleaningProgress) => {
+  const index = CLEANING_STAGES.indexOf(stage);
+
+  if (index === -1) return percent;
+
+  return Math.round((index * 100 + percent) / CLEANING_STAGES.length);
+};
@@ -0,0 +1,99 @@
+import { readCleaningOptions } from "./options";
+import { CleaningOptions } from "./types";
+
+/**
+ * Version of the recipe format, bumped whenever its shape changes. Recipes
+ * from newer versions are refused rather than half applied.
+ */
+export const RECIPE_VERSION = 1;
+
+/**
+ * A full cleaning configuration that can be saved, shared and loaded back:
+ * the options (including column mapping, column rules and validation rules)
+ * and the headers of the template they were set up for.
+ */
+export interface CleaningRecipe {
+  version: number;
+  templateHeaders: string[];
+  options: CleaningOptions;
+}
+
+export const createRecipe = (
+  options: CleaningOptions,
+  templateHeaders: string[],
+): CleaningRecipe => ({ version: RECIPE_VERSION, templateHeaders, options });
+
+export const serializeRecipe = (recipe: CleaningRecipe) =>
+  JSON.stringify(recipe, null, 2);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Reads a recipe, filling in options added since it was saved, and any that
+ * are malformed, with their defaults.
+ */
+export const parseRecipe = (json: string): CleaningRecipe => {
+  let recipe: unknown;
+
+  try {
+    recipe = JSON.parse(json);
+  } catch {
+    throw new Error("The recipe is not valid JSON");
+  }
+
+  if (
+    !isRecord(recipe) ||
+    typeof recipe.version !== "number" ||
+    !isRecord(recipe.options)
+  ) {
+    throw new Error("This is not a cleaning recipe");
+  }
+
+  if (recipe.version > RECIPE_VERSION) {
+    throw new Error("The recipe was made by a newer version of the app");
+  }
+
+  const templateHeaders = Array.isArray(recipe.templateHeaders)
+    ? recipe.templateHeaders.map(String)
+    : [];
+
+  return {
+    version: RECIPE_VERSION,
+    templateHeaders,
+    options: readCleaningOptions(recipe.options),
+  };
+};
+
+/**
+ * Encodes a recipe as URL-safe base64, to share it in a link.
+ */
+export const encodeRecipe = (recipe: CleaningRecipe) => {
+  const bytes = new TextEncoder().encode(JSON.stringify(recipe));
+  let binary = "";
+
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+};
+
+export const decodeRecipe = (encoded: string) => {
+  let json: string;
+
+  try {
+    const binary = atob(encoded.replace(/-/g, "+").replace(/_/g, "/"));
+
+    json = new TextDecoder().decode(
+      Uint8Array.from(binary, (char) => char.charCodeAt(0)),
+    );
+  } catch {
+    throw new Error("The recipe link is damaged");
+  }
+
+  return parseRecipe(json);
+};
@@ -0,0 +1,99 @@
+import { CleaningOptions, CleaningStep, CleaningStepId } from "./types";
+
+export const CLEANING_STEP_LABELS: Record<CleaningStepId, string> = {
+  normalizePersian: "Normalize Persian/Arabic Digits and Letters",
+  normalizeText: "Normalize Text (Unicode, quotes, spaces)",
+  trimWhitespace: "Trim Whitespace",
+  standardizeDates: "Standardize Dates",
+  convertToUppercase: "Convert to Uppercase",
+  convertToLowercase: "Convert to Lowercase",
+  removeSpecialCharacters: "Remove Special Characters",
+  removeLeadingZeros: "Remove Leading Zeros",
+  removeEmptyRows: "Remove Empty Rows",
+  removeDuplicates: "Remove Duplicate Rows",
+  removeEmptyColumns: "Remove Empty Columns",
+};
+
+/**
+ * Steps that keep or drop whole rows rather than rewriting cells.
+ */
+export const ROW_STEPS: CleaningStepId[] = [
+  "removeEmptyRows",
+  "removeDuplicates",
+];
+
+/**
+ * Steps that rewrite cells one at a time, and so can be switched on or off per
+ * column with a column rule.
+ */
+export const COLUMN_STEPS = (
+  Object.keys(CLEANING_STEP_LABELS) as CleaningStepId[]
+).filter((id) => !ROW_STEPS.includes(id) && id !== "removeEmptyColumns");
+
+/**
+ * Every step, disabled, in the default order: cell values are tidied up
+ * first so that empty-row and duplicate checks see the cleaned values.
+ * `removeEmptyColumns` looks at whole columns, so where it sits doesn't change
+ * the result.
+ */
+export const DEFAULT_CLEANING_STEPS: CleaningStep[] = (
+  Object.keys(CLEANING_STEP_LABELS) as CleaningStepId[]
+).map((id) => ({ id, enabled: false }));
+
+export const isStepEnabled = (options: CleaningOptions, id: CleaningStepId) =>
+  options.steps.some((step) => step.id === id && step.enabled);
+
+/**
+ * Whether a step runs on a column: its column rule decides if it has one for
+ * the step, otherwise the global setting does.
+ */
+export const isStepEnabledForColumn = (
+  options: CleaningOptions,
+  id: CleaningStepId,
+  column: string,
+) => options.columnRules[column]?.steps[id] ?? isStepEnabled(options, id);
+
+/**
+ * Whether a step runs at all, either globally or through a column rule.
+ */
+export const isStepUsed = (options: CleaningOptions, id: CleaningStepId) =>
+  isStepEnabled(options, id) ||
+  Object.values(options.columnRules).some((rule) => rule.steps[id] === true);
+
+/**
+ * Returns the steps with the given ones switched on or off.
+ */
+export const enableSteps = (
+  steps: CleaningStep[],
+  ids: CleaningStepId[],
+  enabled = true,
+) => steps.map((step) => (ids.includes(step.id) ? { ...step, enabled } : step));
+
+/**
+ * Returns the steps with the one at `from` moved to `to`.
+ */
+export const moveStep = (steps: CleaningStep[], from: number, to: number) => {
+  const moved = [...steps];
+  const [step] = moved.splice(from, 1);
+
+  moved.splice(to, 0, step);
+
+  return moved;
+};
+
+/**
+ * Brings a saved step list up to date: unknown steps are dropped and steps
+ * added since are appended, disabled, in their default order.
+ */
+export const withDefaultSteps = (steps: CleaningStep[]) => {
+  const known = steps.filter(({ id }) =>
+    Object.hasOwn(CLEANING_STEP_LABELS, id),
+  );
+
+  return [
+    ...known,
+    ...DEFAULT_CLEANING_STEPS.filter(
+      ({ id }) => !known.some((step) => step.id === id),
+    ),
+  ];
+};
@@ -0,0 +1,251 @@
+import Papa from "papaparse";
+
+import {
+  ColumnScan,
+  createCleaner,
+  createColumnScanner,
+  needsColumnScan,
+} from "./clean";
+import { rowsToCsv } from "./export";
+import { createStageReporter } from "./progress";
+import { isStepEnabled } from "./steps";
+import {
+  Cell,
+  CleaningOptions,
+  ProgressCallback,
+  ScannedFile,
+  StreamedCleaningResult,
+  Table,
+} from "./types";
+
+/**
+ * CSV files larger than this are scanned on upload and cleaned by streaming,
+ * instead of being parsed into memory in one go.
+ */
+export const STREAMING_THRESHOLD_BYTES = 20 * 1024 * 1024;
+
+/**
+ * SheetJS needs the whole workbook in memory, so XLSX files stay capped.
+ */
+export const MAX_WORKBOOK_BYTES = 50 * 1024 * 1024;
+
+/**
+ * How many leading rows of a streamed file are kept for previews.
+ */
+export const STREAM_SAMPLE_ROWS = 1000;
+
+/**
+ * How many rejected and duplicate rows a streamed file keeps for download.
+ * The stats still count every one.
+ */
+export const MAX_STREAMED_AUDIT_ROWS = 10000;
+
+/**
+ * Whether a file should be cleaned by streaming rather than parsed up front.
+ */
+export const shouldStreamFile = (file: { name: string; size: number }) =>
+  file.name.endsWith(".csv") && file.size > STREAMING_THRESHOLD_BYTES;
+
+export interface CsvStreamHandlers {
+  /** Called once with the header row, before any data rows. */
+  onHeaders?: (headers: string[]) => void;
+  /** Called with each batch of data rows as it is parsed. */
+  onRows: (rows: Cell[][]) => void;
+  onProgress?: ProgressCallback;
+  /** Characters per chunk. Defaults to Papa's local chunk size. */
+  chunkSize?: number;
+}
+
+/**
+ * Parses CSV from a file or string chunk by chunk, so only one chunk of rows
+ * is held in memory at a time.
+ */
+export const streamCsv = (
+  input: File | string,
+  { onHeaders, onRows, onProgress, chunkSize }: CsvStreamHandlers,
+) =>
+  new Promise<void>((resolve, reject) => {
+    const total = typeof input === "string" ? input.length : input.size;
+    const report = createStageReporter("parse", total, onProgress);
+    let hasHeaders = false;
+
+    const handleChunk = (results: Papa.ParseResult<Cell[]>) => {
+      let rows = results.data;
+
+      if (!hasHeaders && rows.length > 0) {
+        hasHeaders = true;
+        onHeaders?.(rows[0].map((header) => String(header ?? "")));
+        rows = rows.slice(1);
+      }
+
+      if (rows.length > 0) {
+        onRows(rows);
+      }
+      report(results.meta.cursor);
+    };
+
+    const handleComplete = () => {
+      if (!hasHeaders) {
+        onHeaders?.([]);
+      }
+      report(total);
+      resolve();
+    };
+
+    // Papa's overloads are keyed on the input type, so branch rather than
+    // passing the union through.
+    if (typeof input === "string") {
+      Papa.parse<Cell[]>(input, {
+        header: false,
+        skipEmptyLines: true,
+        chunkSize,
+        chunk: handleChunk,
+        complete: handleComplete,
+      });
+    } else {
+      Papa.parse<Cell[]>(input, {
+        header: false,
+        skipEmptyLines: true,
+        chunkSize,
+        chunk: handleChunk,
+        complete: handleComplete,
+        error: reject,
+      });
+    }
+  });
+
+/**
+ * Reads a CSV file through once to count its rows, keeping only the header
+ * row and the first `sampleSize` rows.
+ */
+export const scanCsv = async (
+  input: File | string,
+  onProgress?: ProgressCallback,
+  sampleSize = STREAM_SAMPLE_ROWS,
+): Promise<ScannedFile> => {
+  const sample: Table = { headers: [], rows: [] };
+  let rowCount = 0;
+
+  await streamCsv(input, {
+    onHeaders: (headers) => {
+      sample.headers = headers;
+    },
+    onRows: (rows) => {
+      if (sample.rows.length < sampleSize) {
+        sample.rows.push(...rows.slice(0, sampleSize - sample.rows.length));
+      }
+      rowCount += rows.length;
+    },
+    onProgress,
+  });
+
+  return { sample, rowCount };
+};
+
+/**
+ * Reads a CSV file through once to collect what the cleaner needs to know
+ * about whole columns, without keeping the rows.
+ */
+const scanColumns = async (
+  input: File | string,
+  templateHeaders: string[],
+  options: CleaningOptions,
+  onProgress?: ProgressCallback,
+  chunkSize?: number,
+) => {
+  let scanner = createColumnScanner([], templateHeaders, options);
+
+  await streamCsv(input, {
+    onHeaders: (headers) => {
+      scanner = createColumnScanner(headers, templateHeaders, options);
+    },
+    onRows: (rows) => scanner.add(rows),
+    onProgress,
+    chunkSize,
+  });
+
+  return scanner.getScan();
+};
+
+/**
+ * Cleans a CSV file chunk by chunk, writing the cleaned rows straight into a
+ * CSV blob rather than collecting them into a table.
+ *
+ * Removing empty columns and standardizing dates need to see every row first,
+ * so they add a read-only pass over the file before the cleaning pass. Only
+ * the `keepFirst` duplicate strategy is supported, as the others hold every
+ * row until the end of the file.
+ */
+export const cleanCsvStream = async (
+  input: File | string,
+  template: Table,
+  options: CleaningOptions,
+  onProgress?: ProgressCallback,
+  chunkSize?: number,
+): Promise<StreamedCleaningResult> => {
+  if (
+    isStepEnabled(options, "removeDuplicates") &&
+    options.duplicateStrategy !== "keepFirst"
+  ) {
+    throw new Error(
+      "Large files can only keep the first of each set of duplicates",
+    );
+  }
+
+  const passes = needsColumnScan(options) ? 2 : 1;
+  const reportPass = (pass: number): ProgressCallback | undefined =>
+    onProgress
+      ? ({ percent }) =>
+          onProgress({
+            stage: "stream",
+            percent: Math.floor((pass * 100 + percent) / passes),
+          })
+      : undefined;
+
+  let scan: ColumnScan | undefined;
+
+  if (passes === 2) {
+    scan = await scanColumns(
+      input,
+      template.headers,
+      options,
+      reportPass(0),
+      chunkSize,
+    );
+  }
+  let cleaner = createCleaner([], template.headers, options);
+  const parts: Blob[] = [];
+
+  const appendRows = (rows: Cell[][]) => {
+    if (rows.length > 0) {
+      parts.push(new Blob([`${rowsToCsv(rows)}\r\n`]));
+    }
+  };
+
+  await streamCsv(input, {
+    onHeaders: (headers) => {
+      cleaner = createCleaner(
+        headers,
+        template.headers,
+        options,
+        scan,
+        MAX_STREAMED_AUDIT_ROWS,
+        true,
+      );
+      appendRows([cleaner.headers]);
+    },
+    onRows: (rows) => appendRows(cleaner.cleanRows(rows)),
+    onProgress: reportPass(passes - 1),
+    chunkSize,
+  });
+
+  appendRows(cleaner.finish().rows);
+
+  return {
+    headers: cleaner.headers,
+    csv: new Blob(parts, { type: "text/csv;charset=utf-8;" }),
+    rejects: cleaner.getRejects(),
+    duplicates: cleaner.getDuplicates(),
+    ...cleaner.getStats(),
+  };
+};
@@ -0,0 +1,111 @@
+import { CharacterCategory, DigitScript, NormalizationForm } from "./types";
+
+const SINGLE_QUOTES = /[\u2018\u2019\u201A\u201B\u2032\u2035]/g;
+const DOUBLE_QUOTES = /[\u201C\u201D\u201E\u201F\u2033\u2036]/g;
+// No-break, the fixed-width spaces (including figure), narrow no-break and
+// ideographic spaces
+const UNICODE_SPACES = /[\u00A0\u2000-\u200A\u202F\u3000]/g;
+const REPEATED_WHITESPACE = /[ \t]{2,}/g;
+
+/**
+ * Normalizes Unicode to the given form, straightens smart quotes, turns
+ * non-breaking and other Unicode spaces into plain spaces and collapses runs
+ * of spaces and tabs into one space.
+ */
+export const normalizeText = (value: string, form: NormalizationForm) =>
+  value
+    .normalize(form)
+    .replace(SINGLE_QUOTES, "'")
+    .replace(DOUBLE_QUOTES, '"')
+    .replace(UNICODE_SPACES, " ")
+    .replace(REPEATED_WHITESPACE, " ");
+
+export const DIGIT_SCRIPT_LABELS: Record<DigitScript, string> = {
+  latin: "Latin (0-9)",
+  persian: "Persian (\u06f0-\u06f9)",
+  arabic: "Arabic-Indic (\u0660-\u0669)",
+};
+
+const DIGIT_ZERO: Record<DigitScript, number> = {
+  latin: 0x30,
+  persian: 0x06f0,
+  arabic: 0x0660,
+};
+const ANY_DIGIT = /[0-9\u0660-\u0669\u06f0-\u06f9]/g;
+
+const digitValue = (digit: string) => {
+  const code = digit.charCodeAt(0);
+
+  if (code >= DIGIT_ZERO.persian) return code - DIGIT_ZERO.persian;
+  if (code >= DIGIT_ZERO.arabic) return code - DIGIT_ZERO.arabic;
+
+  return code - DIGIT_ZERO.latin;
+};
+
+/**
+ * Rewrites Latin, Persian and Arabic-Indic digits in the given script.
+ */
+export const toDigitScript = (value: string, script: DigitScript) =>
+  value.replace(ANY_DIGIT, (digit) =>
+    String.fromCharCode(DIGIT_ZERO[script] + digitValue(digit)),
+  );
+
+const ARABIC_YEH = /[\u064a\u0649]/g;
+const ARABIC_KAF = /\u0643/g;
+// A zero-width non-joiner only does something between two letters; anywhere
+// else (next to spaces, digits, other non-joiners or at either end) it is a
+// leftover from copy-pasting.
+const REPEATED_ZWNJ = /\u200c{2,}/g;
+const STRAY_ZWNJ = new RegExp(
+  String.raw`\u200c(?!\p{L})|(?<!\p{L})\u200c`,
+  "gu",
+);
+
+/**
+ * Unifies digits to one script, swaps the Arabic yeh (and alef maksura) and
+ * kaf for their Persian forms and drops stray zero-width non-joiners, so that
+ * Persian text typed on different keyboards compares equal.
+ */
+export const normalizePersian = (value: string, digits: DigitScript) =>
+  toDigitScript(value, digits)
+    .replace(ARABIC_YEH, "\u06cc")
+    .replace(ARABIC_KAF, "\u06a9")
+    .replace(REPEATED_ZWNJ, "\u200c")
+    .replace(STRAY_ZWNJ, "");
+
+export const CHARACTER_CATEGORY_LABELS: Record<CharacterCategory, string> = {
+  letters: "Letters",
+  digits: "Digits",
+  punctuation: "Punctuation",
+  emoji: "Emoji",
+};
+
+// Character class contents for each category. Letters carry their combining
+// marks and the zero-width non-joiner Persian spells words with; emoji carry
+// the joiners, selectors and modifiers that build up a single emoji.
+const CATEGORY_CLASSES: Record<CharacterCategory, string> = {
+  letters: String.raw`\p{L}\p{M}\u200c`,
+  digits: String.raw`\p{N}`,
+  punctuation: String.raw`\p{P}`,
+  emoji: String.raw`\p{Extended_Pictographic}\p{Emoji_Modifier}\p{Regional_Indicator}\u200d\ufe0f\u20e3`,
+};
+
+const escapeForClass = (characters: string) =>
+  characters.replace(/[\\\]\[^-]/g, "\\$&");
+
+/**
+ * Creates a function that strips every character outside the kept categories
+ * and `allowlist`. Whitespace is always kept.
+ */
+export const createCharacterFilter = (
+  categories: CharacterCategory[],
+  allowlist = "",
+) => {
+  const kept = categories.map((category) => CATEGORY_CLASSES[category]);
+  const pattern = new RegExp(
+    `[^\\s${kept.join("")}${escapeForClass(allowlist)}]`,
+    "gu",
+  );
+
+  return (value: string) => value.replace(pattern, "");
+};
@@ -0,0 +1,434 @@
+/**
+ * A single cell value as produced by the CSV and XLSX parsers.
+ */
+export type Cell = string | number | boolean | null;
+
+/**
+ * A parsed sheet: the header row plus the data rows underneath it.
+ */
+export interface Table {
+  headers: string[];
+  rows: Cell[][];
+}
+
+export type DownloadFormat = "csv" | "xlsx";
+
+export type NormalizationForm = "NFC" | "NFKC";
+
+/**
+ * Digit forms `normalizePersian` can write numbers in.
+ */
+export type DigitScript = "latin" | "persian" | "arabic";
+
+/**
+ * Kinds of characters `removeSpecialCharacters` can be told to keep.
+ */
+export type CharacterCategory = "letters" | "digits" | "punctuation" | "emoji";
+
+/**
+ * The input date formats `standardizeDates` recognizes.
+ */
+export type DateInputFormat =
+  | "iso"
+  | "us"
+  | "eu"
+  | "excelSerial"
+  | "textual"
+  | "jalali";
+
+export type DateCalendar = "gregorian" | "jalali";
+
+/**
+ * The calendar and output pattern dates in a column are written in.
+ */
+export interface DateOutput {
+  calendar: DateCalendar;
+  format: string;
+}
+
+/**
+ * What to do with numeric dates like 03/04/2022 that read as either day or
+ * month first. `flag` follows the column's unambiguous dates, and leaves the
+ * value unchanged for review when they don't settle it.
+ */
+export type AmbiguousDateHandling = "flag" | "monthFirst" | "dayFirst";
+
+/**
+ * The cleaning operations, each of which runs as one step of the pipeline.
+ */
+export type CleaningStepId =
+  | "normalizePersian"
+  | "normalizeText"
+  | "trimWhitespace"
+  | "standardizeDates"
+  | "convertToUppercase"
+  | "convertToLowercase"
+  | "removeSpecialCharacters"
+  | "removeLeadingZeros"
+  | "removeEmptyRows"
+  | "removeDuplicates"
+  | "removeEmptyColumns";
+
+/**
+ * Which row `removeDuplicates` keeps out of rows with the same key.
+ */
+export type DuplicateStrategy =
+  | "keepFirst"
+  | "keepLast"
+  | "mostComplete"
+  | "merge";
+
+export interface CleaningStep {
+  id: CleaningStepId;
+  enabled: boolean;
+}
+
+/**
+ * How one column is cleaned where it differs from the global options.
+ */
+export interface ColumnRule {
+  /** Cell steps switched on or off for this column. */
+  steps: Partial<Record<CleaningStepId, boolean>>;
+  /** Extra characters `removeSpecialCharacters` keeps in this column. */
+  characterAllowlist?: string;
+  /** Calendar and format this column's dates are written in. */
+  dateOutput?: DateOutput;
+  /**
+   * Canonical values by the original values they replace, applied to this
+   * column's raw values before any step runs.
+   */
+  valueMap?: Record<string, string>;
+}
+
+/**
+ * How `findValueClusters` keys values: by their sorted words, or by the
+ * sorted character pairs of their letters and digits.
+ */
+export type ValueClusterMethod = "fingerprint" | "ngram";
+
+/**
+ * How many of a column's values have a length within a range.
+ */
+export interface LengthBucket {
+  min: number;
+  /** Null for the last, open-ended bucket. */
+  max: number | null;
+  count: number;
+}
+
+/**
+ * What a column's raw values look like, to decide which steps it needs.
+ */
+export interface ColumnProfile {
+  header: string;
+  /** The type most values are, or `string` when no type fits enough. */
+  type: ColumnType;
+  rowCount: number;
+  emptyCount: number;
+  distinctCount: number;
+  /** The most common values, most common first. */
+  topValues: ValueCount[];
+  /**
+   * The smallest and largest value: by number, by date, or alphabetically
+   * for text. Null when the column is empty.
+   */
+  min: string | null;
+  max: string | null;
+  /** Lengths of the non-empty values, trimmed. */
+  lengths: LengthBucket[];
+  /** Non-empty values that are not of `type`. */
+  malformedCount: number;
+  /** A few distinct malformed values, for review. */
+  malformedSamples: string[];
+}
+
+/**
+ * A distinct value of a column and how many cells hold it.
+ */
+export interface ValueCount {
+  value: string;
+  count: number;
+}
+
+/**
+ * Distinct values of a column that are probably spellings of the same one.
+ */
+export interface ValueCluster {
+  /** The values, most common first. */
+  values: ValueCount[];
+  /** The most common value, proposed to replace the others. */
+  canonical: string;
+}
+
+/**
+ * The kinds of value a template column can be declared to hold.
+ */
+export type ColumnType =
+  | "string"
+  | "integer"
+  | "decimal"
+  | "date"
+  | "email"
+  | "phone"
+  | "enum";
+
+/**
+ * What the values of one template column must look like.
+ */
+export interface ColumnSchema {
+  type: ColumnType;
+  required?: boolean;
+  /** Regular expression the whole value must match. */
+  pattern?: string;
+  /** Bounds of `integer` and `decimal` values. */
+  min?: number;
+  max?: number;
+  maxLength?: number;
+  /** The allowed values of an `enum` column. */
+  values?: string[];
+}
+
+/**
+ * Column schemas by template header.
+ */
+export type TemplateSchema = Record<string, ColumnSchema>;
+
+export type ValidationRule =
+  | "required"
+  | "type"
+  | "enum"
+  | "pattern"
+  | "min"
+  | "max"
+  | "maxLength";
+
+/**
+ * A cleaned value that breaks its column's schema.
+ */
+export interface Violation {
+  /** The row's number in the data file, counting the header row as 1. */
+  row: number;
+  column: string;
+  /** The column's position in the cleaned table, from 1. */
+  columnNumber: number;
+  value: string;
+  rule: ValidationRule;
+  message: string;
+}
+
+export interface CleaningOptions {
+  /**
+   * The data column feeding each template header, by template header, or null
+   * to leave the header unmapped. Headers not listed take the data column of
+   * the same name.
+   */
+  columnMapping: Record<string, string | null>;
+  /**
+   * Whether to write every template column, in template order, even those no
+   * data column feeds.
+   */
+  emitMissingColumns: boolean;
+  /** What the cells of template columns without a source are filled with. */
+  missingColumnValue: string;
+  /**
+   * When several data files are merged, whether to end each row with a
+   * `Source File` column naming the file it came from.
+   */
+  sourceFileColumn: boolean;
+  /** Rules the cleaned values are validated against, by template header. */
+  schema: TemplateSchema;
+  /** Every cleaning step, in the order they run over each row. */
+  steps: CleaningStep[];
+  /** Per-column overrides of the cell steps and their settings, by header. */
+  columnRules: Record<string, ColumnRule>;
+  /**
+   * Template headers whose values identify a record for `removeDuplicates`;
+   * empty to compare whole rows.
+   */
+  duplicateKeys: string[];
+  duplicateStrategy: DuplicateStrategy;
+  /**
+   * Template headers compared to find likely duplicates that differ in
+   * spelling; empty to only remove exact duplicates.
+   */
+  fuzzyColumns: string[];
+  fuzzyMethod: FuzzyMethod;
+  /** How alike two rows must be, from 0 to 1, to be likely duplicates. */
+  fuzzyThreshold: number;
+  /** Digits `normalizePersian` rewrites every number in. */
+  digitScript: DigitScript;
+  /** What `removeSpecialCharacters` keeps, besides whitespace. */
+  keepCharacterCategories: CharacterCategory[];
+  /** Unicode form applied by `normalizeText`. */
+  normalizationForm: NormalizationForm;
+  /** Output pattern for `standardizeDates`, e.g. `YYYY-MM-DD`. */
+  dateFormat: string;
+  /** Calendar `standardizeDates` writes dates in. */
+  dateCalendar: DateCalendar;
+  ambiguousDates: AmbiguousDateHandling;
+}
+
+/**
+ * How `fuzzyColumns` values are compared: by spelling, by their words in any
+ * order, or by how their words sound.
+ */
+export type FuzzyMethod = "editDistance" | "tokenSort" | "phonetic";
+
+/**
+ * Cleaned rows that are probably the same record.
+ */
+export interface FuzzyCluster {
+  /** Indexes into the cleaned table's rows, in ascending order. */
+  rows: number[];
+  /** How alike the least alike linked pair of rows is, from 0 to 1. */
+  score: number;
+}
+
+/**
+ * A parsed data file, under its file name.
+ */
+export interface NamedTable {
+  name: string;
+  table: Table;
+}
+
+/**
+ * A data column proposed to feed a template header of a different name.
+ */
+export interface HeaderMatch {
+  templateHeader: string;
+  dataHeader: string;
+  /** How alike the two headers are, from 0 to 1. */
+  confidence: number;
+}
+
+/**
+ * What `standardizeDates` found in one date column.
+ */
+export interface DateColumnSummary {
+  column: string;
+  /** How many values were converted from each input format. */
+  formats: Record<DateInputFormat, number>;
+  /** Day/month order applied to ambiguous values, or null if flagged. */
+  dayFirst: boolean | null;
+  /** Ambiguous values left unchanged for review. */
+  ambiguous: number;
+  /** Non-empty values that could not be read as a date. */
+  failed: number;
+  /** A few distinct ambiguous and unreadable values, for review. */
+  ambiguousSamples: string[];
+  failedSamples: string[];
+}
+
+/**
+ * What one enabled step did over the whole file.
+ */
+export interface StepStats {
+  id: CleaningStepId;
+  /** Rows that reached the step. */
+  rowsIn: number;
+  rowsRemoved: number;
+  /** Cells the step rewrote, or for `removeEmptyColumns` the cells dropped. */
+  cellsChanged: number;
+}
+
+export interface CleaningStats {
+  totalRowsCleaned: number;
+  columnsDeleted: number;
+  duplicateRowsRemoved: number;
+  /** Template columns dropped because every cell was empty. */
+  emptyColumnsRemoved: number;
+  /** Template headers no data column was mapped to. */
+  missingColumns: string[];
+  /**
+   * `duplicateKeys` that are unmapped or were removed as empty, so duplicates
+   * were not matched on them.
+   */
+  missingDuplicateKeys: string[];
+  /** The enabled steps, in the order they ran. */
+  steps: StepStats[];
+  /** One entry per template column detected as dates. */
+  dateColumns: DateColumnSummary[];
+  /** The first `MAX_VIOLATIONS` schema violations, in row order. */
+  violations: Violation[];
+  /** Every schema violation, including those past `MAX_VIOLATIONS`. */
+  violationCount: number;
+  /**
+   * Rows that broke the schema, including any past the rows a streamed file
+   * keeps in `rejects`.
+   */
+  rejectedRows: number;
+}
+
+export interface CleaningResult extends CleaningStats {
+  /** The cleaned table, with only the template columns kept. */
+  table: Table;
+  /**
+   * The original data rows that broke the schema, after a `Source Row` column
+   * and followed by one reason column per failure.
+   */
+  rejects: Table;
+  /**
+   * The rows `removeDuplicates` dropped, as they were when compared, after a
+   * `Source Row` column and a `Duplicate Of` column with the kept row's number.
+   */
+  duplicates: Table;
+  /** The source row number of each row of `table`, counting the header as 1. */
+  rowNumbers: number[];
+  /** Likely duplicates among the cleaned rows, for the user to review. */
+  fuzzyClusters: FuzzyCluster[];
+}
+
+/**
+ * The result of cleaning a file too large to hold in memory. The cleaned rows
+ * are only available as CSV.
+ */
+export interface StreamedCleaningResult extends CleaningStats {
+  headers: string[];
+  csv: Blob;
+  /**
+   * The first `MAX_STREAMED_AUDIT_ROWS` rejected rows, laid out as in
+   * `CleaningResult.rejects`.
+   */
+  rejects: Table;
+  /**
+   * The first `MAX_STREAMED_AUDIT_ROWS` removed duplicates, laid out as in
+   * `CleaningResult.duplicates`.
+   */
+  duplicates: Table;
+}
+
+/**
+ * The header row, row count and first rows of a file that is cleaned by
+ * streaming rather than parsed up front.
+ */
+export interface ScannedFile {
+  sample: Table;
+  rowCount: number;
+}
+
+/**
+ * The minimal shape `detectFileTypes` needs to assign data/template roles.
+ */
+export interface DetectableFile {
+  id: string;
+  size: number;
+  rowCount?: number;
+  isDataFile?: boolean;
+  isTemplateFile?: boolean;
+  /** A template picked from the library, which always stays the template. */
+  isLibraryTemplate?: boolean;
+}
+
+/**
+ * The stages a file goes through, in order, on its way to a cleaned table.
+ */
+export type CleaningStage = "parse" | "scan" | "clean" | "stream" | "fuzzy";
+
+export interface CleaningProgress {
+  stage: CleaningStage;
+  /** Completion of the current stage, from 0 to 100. */
+  percent: number;
+}
+
+export type ProgressCallback = (progress: CleaningProgress) => void;
@@ -0,0 +1,376 @@
+import { readDate } from "./dates";
+import {
+  Cell,
+  ColumnSchema,
+  ColumnType,
+  Table,
+  TemplateSchema,
+  ValidationRule,
+  Violation,
+} from "./types";
+
+/** How many violations a cleaning result keeps; the rest are only counted. */
+export const MAX_VIOLATIONS = 1000;
+
+export const COLUMN_TYPE_LABELS: Record<ColumnType, string> = {
+  string: "Text",
+  integer: "Integer",
+  decimal: "Decimal",
+  date: "Date",
+  email: "Email",
+  phone: "Phone",
+  enum: "One of a list",
+};
+
+const INTEGER = /^[+-]?\d+$/;
+const DECIMAL = /^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i;
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE = /^\+?[\d\s().-]+$/;
+
+const TYPE_CHECKS: Record<ColumnType, (value: string) => boolean> = {
+  string: () => true,
+  integer: (value) => INTEGER.test(value),
+  decimal: (value) => DECIMAL.test(value),
+  // Excel serial numbers count, since a date column may hold them.
+  date: (value) => readDate(value, true) !== null,
+  email: (value) => EMAIL.test(value),
+  phone: (value) => {
+    const digits = value.replace(/\D/g, "").length;
+
+    return PHONE.test(value) && digits >= 7 && digits <= 15;
+  },
+  enum: () => true,
+};
+
+/**
+ * Whether a non-empty value is of the given type, ignoring surrounding
+ * whitespace.
+ */
+export const matchesColumnType = (value: string, type: ColumnType) =>
+  TYPE_CHECKS[type](value.trim());
+
+/**
+ * Compiles a column's pattern so it has to match the whole value.
+ */
+const compilePattern = (pattern: string) => new RegExp(`^(?:${pattern})$`);
+
+/**
+ * Checks one value against its column's schema, returning the first rule it
+ * breaks and why.
+ */
+export const validateValue = (
+  value: string,
+  schema: ColumnSchema,
+  pattern = schema.pattern === undefined
+    ? null
+    : compilePattern(schema.pattern),
+): { rule: ValidationRule; message: string } | null => {
+  const text = value.trim();
+
+  if (text === "") {
+    return schema.required
+      ? { rule: "required", message: "Value is required" }
+      : null;
+  }
+
+  if (!TYPE_CHECKS[schema.type](text)) {
+    return {
+      rule: "type",
+      message: `Not a valid ${COLUMN_TYPE_LABELS[schema.type].toLowerCase()}`,
+    };
+  }
+
+  if (schema.type === "enum" && !schema.values?.includes(text)) {
+    return {
+      rule: "enum",
+      message: `Not one of: ${(schema.values ?? []).join(", ")}`,
+    };
+  }
+
+  if (pattern && !pattern.test(text)) {
+    return { rule: "pattern", message: `Does not match ${schema.pattern}` };
+  }
+
+  if (schema.type === "integer" || schema.type === "decimal") {
+    const number = Number(text);
+
+    if (schema.min !== undefined && number < schema.min) {
+      return { rule: "min", message: `Less than ${schema.min}` };
+    }
+
+    if (schema.max !== undefined && number > schema.max) {
+      return { rule: "max", message: `More than ${schema.max}` };
+    }
+  }
+
+  if (schema.maxLength !== undefined && text.length > schema.maxLength) {
+    return {
+      rule: "maxLength",
+      message: `Longer than ${schema.maxLength} characters`,
+    };
+  }
+
+  return null;
+};
+
+/**
+ * Creates a validator for cleaned rows with the given headers. Columns
+ * without a schema are not checked.
+ */
+export const createValidator = (headers: string[], schema: TemplateSchema) => {
+  const columns = headers.flatMap((header, index) => {
+    const column = schema[header];
+
+    return column
+      ? [
+          {
+            header,
+            index,
+            column,
+            pattern:
+              column.pattern === undefined
+                ? null
+                : compilePattern(column.pattern),
+          },
+        ]
+      : [];
+  });
+
+  /** Returns the violations in a cleaned row from the given data file row. */
+  return (row: Cell[], rowNumber: number): Violation[] =>
+    columns.flatMap(({ header, index, column, pattern }) => {
+      const value = row[index] === null ? "" : String(row[index] ?? "");
+      const failure = validateValue(value, column, pattern);
+
+      return failure
+        ? [
+            {
+              row: rowNumber,
+              column: header,
+              columnNumber: index + 1,
+              value,
+              ...failure,
+            },
+          ]
+        : [];
+    });
+};
+
+const isColumnType = (value: unknown): value is ColumnType =>
+  typeof value === "string" && Object.hasOwn(COLUMN_TYPE_LABELS, value);
+
+const toNumber = (value: string, token: string) => {
+  const number = Number(value);
+
+  if (value.trim() === "" || Number.isNaN(number)) {
+    throw new Error(`"${token}" needs a number`);
+  }
+
+  return number;
+};
+
+const checkPattern = (pattern: string) => {
+  try {
+    compilePattern(pattern);
+  } catch {
+    throw new Error(`"${pattern}" is not a valid regular expression`);
+  }
+
+  return pattern;
+};
+
+// A pattern runs to the end of the annotation, so it may contain semicolons.
+const PATTERN_TOKEN = /(?:^|;)\s*(?:pattern|regex)\s*=/i;
+
+/**
+ * Reads a template annotation such as `integer; required; min=0; max=120` or
+ * `enum=Active|Inactive`. Tokens are separated by semicolons, and a
+ * `pattern=` token must come last; a cell without a type is text.
+ */
+export const parseColumnAnnotation = (annotation: string): ColumnSchema => {
+  const schema: ColumnSchema = { type: "string" };
+  const patternToken = PATTERN_TOKEN.exec(annotation);
+
+  if (patternToken) {
+    schema.pattern = checkPattern(
+      annotation.slice(patternToken.index + patternToken[0].length).trim(),
+    );
+  }
+
+  annotation
+    .slice(0, patternToken ? patternToken.index : annotation.length)
+    .split(";")
+    .map((token) => token.trim())
+    .filter((token) => token !== "")
+    .forEach((token) => {
+      const separator = token.indexOf("=");
+      const key = (separator === -1 ? token : token.slice(0, separator))
+        .trim()
+        .toLowerCase();
+      const value = separator === -1 ? "" : token.slice(separator + 1).trim();
+
+      if (separator === -1 && isColumnType(key)) {
+        schema.type = key;
+      } else if (separator === -1 && key === "required") {
+        schema.required = true;
+      } else if (key === "enum") {
+        schema.type = "enum";
+        schema.values = value.split("|").map((option) => option.trim());
+      } else if (key === "min") {
+        schema.min = toNumber(value, token);
+      } else if (key === "max") {
+        schema.max = toNumber(value, token);
+      } else if (key === "maxlength") {
+        schema.maxLength = toNumber(value, token);
+      } else {
+        throw new Error(`Unknown rule "${token}"`);
+      }
+    });
+
+  return schema;
+};
+
+/**
+ * Reads the column rules from a template whose second row annotates each
+ * column, or returns null if the second row isn't made of annotations.
+ */
+export const readTemplateSchema = (template: Table): TemplateSchema | null => {
+  const [annotations] = template.rows;
+
+  if (!annotations) return null;
+
+  const schema: TemplateSchema = {};
+
+  try {
+    template.headers.forEach((header, index) => {
+      const annotation = annotations[index];
+
+      if (annotation !== null && String(annotation).trim() !== "") {
+        schema[header] = parseColumnAnnotation(String(annotation));
+      }
+    });
+  } catch {
+    return null;
+  }
+
+  return Object.keys(schema).length > 0 ? schema : null;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// JSON Schema `format`s that map onto a column type.
+const FORMAT_TYPES: Record<string, ColumnType> = {
+  date: "date",
+  "date-time": "date",
+  email: "email",
+  phone: "phone",
+};
+
+const readJsonColumn = (
+  header: string,
+  property: unknown,
+  required: boolean,
+): ColumnSchema => {
+  if (!isRecord(property)) {
+    throw new Error(`The rules for "${header}" must be an object`);
+  }
+
+  const { type, format, pattern, minimum, maximum, maxLength } = property;
+  const schema: ColumnSchema = { type: "string" };
+
+  if (Array.isArray(property.enum)) {
+    schema.type = "enum";
+    schema.values = property.enum.map(String);
+  } else if (
+    typeof format === "string" &&
+    Object.hasOwn(FORMAT_TYPES, format)
+  ) {
+    schema.type = FORMAT_TYPES[format];
+  } else if (type === "number") {
+    schema.type = "decimal";
+  } else if (isColumnType(type)) {
+    schema.type = type;
+  } else if (type !== undefined) {
+    throw new Error(`"${header}" has an unsupported type`);
+  }
+
+  if (required) schema.required = true;
+  if (typeof pattern === "string") schema.pattern = checkPattern(pattern);
+  if (typeof minimum === "number") schema.min = minimum;
+  if (typeof maximum === "number") schema.max = maximum;
+  if (typeof maxLength === "number") schema.maxLength = maxLength;
+
+  return schema;
+};
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+const readSavedColumn = (value: unknown): ColumnSchema | null => {
+  if (!isRecord(value) || !isColumnType(value.type)) return null;
+
+  const schema: ColumnSchema = { type: value.type };
+
+  if (value.required === true) schema.required = true;
+  if (typeof value.pattern === "string") {
+    try {
+      schema.pattern = checkPattern(value.pattern);
+    } catch {
+      // An invalid pattern is dropped, keeping the column's other rules.
+    }
+  }
+  if (isFiniteNumber(value.min)) schema.min = value.min;
+  if (isFiniteNumber(value.max)) schema.max = value.max;
+  if (isFiniteNumber(value.maxLength)) schema.maxLength = value.maxLength;
+  if (Array.isArray(value.values)) schema.values = value.values.map(String);
+
+  return schema;
+};
+
+/**
+ * Reads column rules saved by the app, e.g. in a recipe or a template library
+ * export. Columns without a known type are left out, and so is any rule that
+ * is malformed, such as a pattern that is not a valid regular expression.
+ */
+export const readSavedSchema = (value: unknown): TemplateSchema => {
+  if (!isRecord(value)) return {};
+
+  const schema: TemplateSchema = {};
+
+  Object.entries(value).forEach(([header, column]) => {
+    const columnSchema = readSavedColumn(column);
+
+    if (columnSchema) schema[header] = columnSchema;
+  });
+
+  return schema;
+};
+
+/**
+ * Reads column rules from a JSON Schema describing one row: `properties` holds
+ * each template header's `type`, `format`, `enum`, `pattern`, `minimum`,
+ * `maximum` and `maxLength`, and `required` lists the required headers.
+ */
+export const parseSchemaJson = (json: string): TemplateSchema => {
+  let document: unknown;
+
+  try {
+    document = JSON.parse(json);
+  } catch {
+    throw new Error("The schema file is not valid JSON");
+  }
+
+  if (!isRecord(document) || !isRecord(document.properties)) {
+    throw new Error('The schema needs a "properties" object');
+  }
+
+  const required = Array.isArray(document.required) ? document.required : [];
+
+  return Object.fromEntries(
+    Object.entries(document.properties).map(([header, property]) => [
+      header,
+      readJsonColumn(header, property, required.includes(header)),
+    ]),
+  );
+};
@@ -0,0 +1,131 @@
+import { Cell, ValueCluster, ValueClusterMethod, ValueCount } from "./types";
+
+export const VALUE_CLUSTER_METHOD_LABELS: Record<ValueClusterMethod, string> = {
+  fingerprint: "Same words (fingerprint)",
+  ngram: "Same letter pairs (n-gram)",
+};
+
+const MARKS = new RegExp(String.raw`\p{M}`, "gu");
+const PUNCTUATION = new RegExp(String.raw`[^\p{L}\p{N}\s]`, "gu");
+const NON_ALPHANUMERIC = new RegExp(String.raw`[^\p{L}\p{N}]`, "gu");
+
+const simplify = (value: string) =>
+  value.trim().toLowerCase().normalize("NFKD").replace(MARKS, "");
+
+/**
+ * The distinct values of a column with how many cells hold each, most common
+ * first. Empty cells are left out.
+ */
+export const countValues = (cells: Cell[]): ValueCount[] => {
+  const counts = new Map<string, number>();
+
+  cells.forEach((cell) => {
+    if (cell === null || String(cell).trim() === "") return;
+
+    const value = String(cell);
+
+    counts.set(value, (counts.get(value) ?? 0) + 1);
+  });
+
+  return Array.from(counts.entries())
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+};
+
+/**
+ * The value's distinct words, lowercased and without accents or punctuation,
+ * in sorted order: `"Engineering "` and `"engineering."` share one.
+ */
+export const fingerprint = (value: string) =>
+  Array.from(new Set(simplify(value).replace(PUNCTUATION, "").split(/\s+/)))
+    .filter((word) => word !== "")
+    .sort()
+    .join(" ");
+
+/**
+ * The value's distinct runs of `n` letters or digits, lowercased and without
+ * accents, in sorted order. Unlike `fingerprint` it ignores spacing, so
+ * `"Human Resources"` and `"HumanResources"` share one.
+ */
+export const ngramFingerprint = (value: string, n = 2) => {
+  const letters = simplify(value).replace(NON_ALPHANUMERIC, "");
+
+  if (letters.length <= n) return letters;
+
+  const grams = new Set<string>();
+
+  for (let i = 0; i + n <= letters.length; i++) {
+    grams.add(letters.slice(i, i + n));
+  }
+
+  return Array.from(grams).sort().join("");
+};
+
+/**
+ * Groups the counted values that share a key into clusters, the largest
+ * first. Values with a key of their own are left out.
+ */
+export const findValueClusters = (
+  counts: ValueCount[],
+  method: ValueClusterMethod,
+): ValueCluster[] => {
+  const toKey = method === "ngram" ? ngramFingerprint : fingerprint;
+  const groups = new Map<string, ValueCount[]>();
+
+  counts.forEach((count) => {
+    const key = toKey(count.value);
+
+    if (key === "") return;
+
+    const group = groups.get(key);
+
+    if (group) group.push(count);
+    else groups.set(key, [count]);
+  });
+
+  const total = (values: ValueCount[]) =>
+    values.reduce((sum, { count }) => sum + count, 0);
+
+  return Array.from(groups.values())
+    .filter((values) => values.length > 1)
+    .map((values) => {
+      const sorted = [...values].sort((a, b) => b.count - a.count);
+
+      return { values: sorted, canonical: sorted[0].value };
+    })
+    .sort((a, b) => total(b.values) - total(a.values));
+};
+
+/**
+ * Adds the merge of `values` into `canonical` to a column's value map.
+ * Values already mapped to one of them follow it to `canonical`.
+ */
+export const mergeValues = (
+  valueMap: Record<string, string>,
+  values: string[],
+  canonical: string,
+) => {
+  const merged: Record<string, string> = {};
+
+  Object.keys(valueMap).forEach((value) => {
+    merged[value] = values.includes(valueMap[value])
+      ? canonical
+      : valueMap[value];
+  });
+  values.forEach((value) => {
+    if (value !== canonical) merged[value] = canonical;
+  });
+  delete merged[canonical];
+
+  return merged;
+};
+
+/**
+ * The canonical value a cell is replaced with by `valueMap`, or the cell.
+ */
+export const mapValue = (cell: Cell, valueMap?: Record<string, string>) =>
+  cell !== null &&
+  valueMap &&
+  Object.prototype.hasOwnProperty.call(valueMap, String(cell))
+    ? valueMap[String(cell)]
+    : cell;
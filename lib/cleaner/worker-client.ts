@@ -0,0 +1,152 @@
+import {
+  Cell,
+  CleaningOptions,
+  CleaningResult,
+  NamedTable,
+  ProgressCallback,
+  ScannedFile,
+  StreamedCleaningResult,
+  Table,
+  ValueCount,
+} from "./types";
+import { WorkerRequest, WorkerResponse } from "./worker-protocol";
+import { ZipSource } from "./zip";
+
+export interface WorkerTaskOptions {
+  onProgress?: ProgressCallback;
+  /** Aborting terminates the worker and rejects with an `AbortError`. */
+  signal?: AbortSignal;
+}
+
+const createAbortError = () =>
+  new DOMException("The operation was cancelled", "AbortError");
+
+/**
+ * Whether an error came from cancelling a worker task.
+ */
+export const isAbortError = (error: unknown) =>
+  error instanceof DOMException && error.name === "AbortError";
+
+const runTask = <T>(
+  request: WorkerRequest,
+  { onProgress, signal }: WorkerTaskOptions,
+) =>
+  new Promise<T>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+
+      return;
+    }
+
+    const worker = new Worker(new URL("./cleaner.worker.ts", import.meta.url), {
+      type: "module",
+    });
+
+    const handleAbort = () => {
+      worker.terminate();
+      reject(createAbortError());
+    };
+
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener("abort", handleAbort);
+    };
+
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      const message = event.data;
+
+      switch (message.type) {
+        case "progress":
+          onProgress?.(message.progress);
+          break;
+        case "result":
+          finish();
+          resolve(message.result as T);
+          break;
+        case "error":
+          finish();
+          reject(new Error(message.message));
+          break;
+      }
+    };
+
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || "Worker failed"));
+    };
+
+    signal?.addEventListener("abort", handleAbort, { once: true });
+    worker.postMessage(request);
+  });
+
+/**
+ * Parses a file off the main thread.
+ */
+export const parseFileInWorker = (
+  file: File,
+  options: WorkerTaskOptions = {},
+) => runTask<Table>({ type: "parse", file }, options);
+
+/**
+ * Scans a large CSV file off the main thread, keeping only a sample of rows.
+ */
+export const scanFileInWorker = (file: File, options: WorkerTaskOptions = {}) =>
+  runTask<ScannedFile>({ type: "scan", file }, options);
+
+/**
+ * Runs `cleanData` off the main thread.
+ */
+export const cleanDataInWorker = (
+  data: Table,
+  template: Table,
+  cleaningOptions: CleaningOptions,
+  options: WorkerTaskOptions = {},
+) =>
+  runTask<CleaningResult>(
+    { type: "clean", data, template, options: cleaningOptions },
+    options,
+  );
+
+/**
+ * Runs `cleanMergedData` off the main thread.
+ */
+export const cleanMergedDataInWorker = (
+  files: NamedTable[],
+  template: Table,
+  cleaningOptions: CleaningOptions,
+  options: WorkerTaskOptions = {},
+) =>
+  runTask<CleaningResult>(
+    { type: "cleanMerged", files, template, options: cleaningOptions },
+    options,
+  );
+
+/**
+ * Cleans a large CSV file off the main thread by streaming it.
+ */
+export const cleanFileInWorker = (
+  file: File,
+  template: Table,
+  cleaningOptions: CleaningOptions,
+  options: WorkerTaskOptions = {},
+) =>
+  runTask<StreamedCleaningResult>(
+    { type: "cleanFile", file, template, options: cleaningOptions },
+    options,
+  );
+
+/**
+ * Runs `countValues` off the main thread.
+ */
+export const countValuesInWorker = (
+  cells: Cell[],
+  options: WorkerTaskOptions = {},
+) => runTask<ValueCount[]>({ type: "countValues", cells }, options);
+
+/**
+ * Builds a ZIP of the files off the main thread.
+ */
+export const zipFilesInWorker = (
+  files: ZipSource[],
+  options: WorkerTaskOptions = {},
+) => runTask<Blob>({ type: "zip", files }, options);
@@ -0,0 +1,56 @@
+import {
+  Cell,
+  CleaningOptions,
+  CleaningProgress,
+  CleaningResult,
+  NamedTable,
+  ScannedFile,
+  StreamedCleaningResult,
+  Table,
+  ValueCount,
+} from "./types";
+import { ZipSource } from "./zip";
+
+/**
+ * Messages posted to the cleaner worker. Each worker runs a single task.
+ */
+export type WorkerRequest =
+  | { type: "parse"; file: File }
+  | { type: "scan"; file: File }
+  | {
+      type: "clean";
+      data: Table;
+      template: Table;
+      options: CleaningOptions;
+    }
+  | {
+      type: "cleanMerged";
+      files: NamedTable[];
+      template: Table;
+      options: CleaningOptions;
+    }
+  | {
+      type: "cleanFile";
+      file: File;
+      template: Table;
+      options: CleaningOptions;
+    }
+  | { type: "countValues"; cells: Cell[] }
+  | { type: "zip"; files: ZipSource[] };
+
+/**
+ * Messages posted back by the cleaner worker.
+ */
+export type WorkerResponse =
+  | { type: "progress"; progress: CleaningProgress }
+  | {
+      type: "result";
+      result:
+        | Table
+        | ScannedFile
+        | CleaningResult
+        | StreamedCleaningResult
+        | ValueCount[]
+        | Blob;
+    }
+  | { type: "error"; message: string };
@@ -0,0 +1,269 @@
+import { tableToBlob } from "./export";
+import { DownloadFormat, Table } from "./types";
+
+/**
+ * A file to put in a ZIP archive.
+ */
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+/**
+ * A file for `zipFiles`: a blob, or a table to write out in `format`.
+ */
+export type ZipSource =
+  | { name: string; blob: Blob }
+  | { name: string; table: Table; format: DownloadFormat };
+
+/**
+ * Archives are written without ZIP64, so their entry count is 16-bit and their
+ * sizes and offsets 32-bit.
+ */
+export const MAX_ZIP_ENTRIES = 0xffff;
+export const MAX_ZIP_BYTES = 0xffffffff;
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+
+  return c >>> 0;
+});
+
+/**
+ * The CRC-32 of `data`, or of the bytes before it and `data` when given the
+ * CRC of the bytes before it.
+ */
+export const crc32 = (data: Uint8Array, previous = 0) => {
+  let crc = (previous ^ 0xffffffff) >>> 0;
+
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const blobCrc32 = async (blob: Blob) => {
+  const reader = blob.stream().getReader();
+  let crc = 0;
+  let chunk = await reader.read();
+
+  while (!chunk.done) {
+    crc = crc32(chunk.value, crc);
+    chunk = await reader.read();
+  }
+
+  return crc;
+};
+
+// Bit 11 of the general purpose flags: names are UTF-8.
+const UTF8_NAMES = 0x0800;
+
+const toDosTime = (date: Date) =>
+  (date.getHours() << 11) |
+  (date.getMinutes() << 5) |
+  Math.floor(date.getSeconds() / 2);
+
+const toDosDate = (date: Date) =>
+  (Math.max(date.getFullYear() - 1980, 0) << 9) |
+  ((date.getMonth() + 1) << 5) |
+  date.getDate();
+
+interface ZipFileInfo {
+  name: Uint8Array;
+  size: number;
+  crc: number;
+  offset: number;
+}
+
+/**
+ * Throws when the files do not fit in an archive without ZIP64.
+ */
+const checkZipLimits = (files: { name: Uint8Array; size: number }[]) => {
+  if (files.length > MAX_ZIP_ENTRIES) {
+    throw new Error(`A ZIP can hold at most ${MAX_ZIP_ENTRIES} files`);
+  }
+
+  const size = files.reduce(
+    (total, { name, size }) => total + 30 + 46 + name.length * 2 + size,
+    22,
+  );
+
+  if (size > MAX_ZIP_BYTES) {
+    throw new Error("The ZIP would be larger than 4 GB");
+  }
+};
+
+/**
+ * Writes the ZIP headers around files stored uncompressed: a local header to
+ * put before each file's data, and the central directory and end record to
+ * put after the last file.
+ */
+const createZipHeaders = (files: ZipFileInfo[], date: Date) => {
+  const time = toDosTime(date);
+  const day = toDosDate(date);
+  const localHeaders = files.map(({ name, size, crc }) => {
+    const local = new DataView(new ArrayBuffer(30));
+
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(6, UTF8_NAMES, true);
+    local.setUint16(10, time, true);
+    local.setUint16(12, day, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, size, true);
+    local.setUint32(22, size, true);
+    local.setUint16(26, name.length, true);
+
+    return [new Uint8Array(local.buffer), name];
+  });
+  const centralParts = files.flatMap(({ name, size, crc, offset }) => {
+    const central = new DataView(new ArrayBuffer(46));
+
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(4, 20, true);
+    central.setUint16(6, 20, true);
+    central.setUint16(8, UTF8_NAMES, true);
+    central.setUint16(12, time, true);
+    central.setUint16(14, day, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, size, true);
+    central.setUint32(24, size, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true);
+
+    return [new Uint8Array(central.buffer), name];
+  });
+  const centralOffset = files.reduce(
+    (total, { name, size }) => total + 30 + name.length + size,
+    0,
+  );
+  const centralSize = centralParts.reduce(
+    (size, part) => size + part.length,
+    0,
+  );
+  const end = new DataView(new ArrayBuffer(22));
+
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, centralOffset, true);
+
+  return {
+    localHeaders,
+    trailer: [...centralParts, new Uint8Array(end.buffer)],
+  };
+};
+
+/**
+ * Lays out each file after the ones before it.
+ */
+const placeFiles = (
+  files: { name: Uint8Array; size: number; crc: number }[],
+) => {
+  let offset = 0;
+
+  return files.map((file) => {
+    const placed = { ...file, offset };
+
+    offset += 30 + file.name.length + file.size;
+
+    return placed;
+  });
+};
+
+/**
+ * Packs the entries into a ZIP archive. Entries are stored uncompressed, which
+ * every unzip tool reads and keeps the archive quick to build in the browser.
+ */
+export const createZip = (entries: ZipEntry[], date = new Date()) => {
+  const encoder = new TextEncoder();
+  const names = entries.map(({ name }) => encoder.encode(name));
+
+  checkZipLimits(
+    entries.map(({ data }, i) => ({ name: names[i], size: data.length })),
+  );
+
+  const { localHeaders, trailer } = createZipHeaders(
+    placeFiles(
+      entries.map(({ data }, i) => ({
+        name: names[i],
+        size: data.length,
+        crc: crc32(data),
+      })),
+    ),
+    date,
+  );
+  const parts = [
+    ...entries.flatMap(({ data }, i) => [...localHeaders[i], data]),
+    ...trailer,
+  ];
+  const zip = new Uint8Array(
+    parts.reduce((size, part) => size + part.length, 0),
+  );
+  let position = 0;
+
+  parts.forEach((part) => {
+    zip.set(part, position);
+    position += part.length;
+  });
+
+  return zip;
+};
+
+/**
+ * Packs downloadable blobs into a ZIP blob. Each blob is read once, in chunks,
+ * to work out its checksum, and is put in the archive as it is rather than
+ * copied into one buffer.
+ */
+export const zipBlobs = async (
+  files: { name: string; blob: Blob }[],
+  date = new Date(),
+) => {
+  const encoder = new TextEncoder();
+  const names = files.map(({ name }) => encoder.encode(name));
+
+  checkZipLimits(
+    files.map(({ blob }, i) => ({ name: names[i], size: blob.size })),
+  );
+
+  const crcs: number[] = [];
+
+  // One blob at a time, so only one chunk is in memory at once.
+  for (let i = 0; i < files.length; i++) {
+    crcs.push(await blobCrc32(files[i].blob));
+  }
+
+  const { localHeaders, trailer } = createZipHeaders(
+    placeFiles(
+      files.map(({ blob }, i) => ({
+        name: names[i],
+        size: blob.size,
+        crc: crcs[i],
+      })),
+    ),
+    date,
+  );
+
+  return new Blob(
+    [...files.flatMap(({ blob }, i) => [...localHeaders[i], blob]), ...trailer],
+    { type: "application/zip" },
+  );
+};
+
+/**
+ * Writes out the tables among `files` and packs every file into a ZIP blob.
+ */
+export const zipFiles = (files: ZipSource[]) =>
+  zipBlobs(
+    files.map((file) =>
+      "blob" in file
+        ? file
+        : { name: file.name, blob: tableToBlob(file.table, file.format) },
+    ),
+  );
@@ -0,0 +1,72 @@
+const DB_NAME = "data-cleaner";
+const DB_VERSION = 2;
+
+/**
+ * Object stores in the app database. Adding a store means bumping
+ * `DB_VERSION` so existing databases are upgraded.
+ */
+export const STORES = ["session", "sessionFiles", "templates"] as const;
+
+export type StoreName = (typeof STORES)[number];
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Opens (and creates or upgrades, if needed) the app database. The connection
+ * is shared between callers.
+ */
+export const openDatabase = () => {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        STORES.forEach((store) => {
+          if (!request.result.objectStoreNames.contains(store)) {
+            request.result.createObjectStore(store);
+          }
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch((error) => {
+      databasePromise = null;
+      throw error;
+    });
+  }
+
+  return databasePromise;
+};
+
+const withStore = async <T>(
+  store: StoreName,
+  mode: IDBTransactionMode,
+  run: (objectStore: IDBObjectStore) => IDBRequest<T>,
+) => {
+  const database = await openDatabase();
+
+  return promisify(run(database.transaction(store, mode).objectStore(store)));
+};
+
+export const getRecord = <T>(store: StoreName, key: string) =>
+  withStore<T | undefined>(store, "readonly", (objectStore) =>
+    objectStore.get(key),
+  );
+
+export const getAllRecords = <T>(store: StoreName) =>
+  withStore<T[]>(store, "readonly", (objectStore) => objectStore.getAll());
+
+export const putRecord = <T>(store: StoreName, key: string, value: T) =>
+  withStore(store, "readwrite", (objectStore) => objectStore.put(value, key));
+
+export const deleteRecord = (store: StoreName, key: string) =>
+  withStore(store, "readwrite", (objectStore) => objectStore.delete(key));
+
+export const clearStore = (store: StoreName) =>
+  withStore(store, "readwrite", (objectStore) => objectStore.clear());
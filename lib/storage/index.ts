@@ -0,0 +1,29 @@
+export {
+  SESSION_VERSION,
+  deleteSessionFile,
+  discardSession,
+  loadSession,
+  saveSessionBatch,
+  saveSessionFile,
+  saveSessionResult,
+  saveSessionState,
+} from "./session";
+export type {
+  BatchFileResult,
+  FileMode,
+  RestoredSession,
+  SessionCleaningResult,
+  SessionFileContents,
+  SessionFileMeta,
+  SessionState,
+} from "./session";
+export {
+  TEMPLATE_LIBRARY_VERSION,
+  deleteTemplate,
+  exportTemplateLibrary,
+  importTemplates,
+  listTemplates,
+  parseTemplateLibrary,
+  saveTemplate,
+} from "./templates";
+export type { SavedTemplate, TemplateLibraryExport } from "./templates";
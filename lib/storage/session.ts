@@ -0,0 +1,142 @@
+import { clearStore, deleteRecord, getRecord, putRecord } from "./idb";
+
+import {
+  CleaningOptions,
+  CleaningResult,
+  StreamedCleaningResult,
+  Table,
+} from "@/lib/cleaner";
+
+/**
+ * Bumped whenever the shape of a saved session changes, so sessions saved by
+ * an older version are discarded instead of restored half-broken.
+ */
+export const SESSION_VERSION = 1;
+
+const STATE_KEY = "state";
+const RESULT_KEY = "result";
+const BATCH_KEY = "batch";
+
+/**
+ * What the wizard needs to know about an uploaded file, minus its contents.
+ */
+export interface SessionFileMeta {
+  id: string;
+  name: string;
+  size: number;
+  rowCount?: number;
+  headers?: string[];
+  streamed?: boolean;
+  failed?: boolean;
+  isDataFile?: boolean;
+  isTemplateFile?: boolean;
+  isLibraryTemplate?: boolean;
+}
+
+/**
+ * The contents of an uploaded file. Stored separately from the session state
+ * because it is large and only written once per file.
+ */
+export interface SessionFileContents {
+  file: File;
+  table?: Table;
+}
+
+/**
+ * How the data files are cleaned: only the detected one, each on its own
+ * (`batch`), or stacked into one table (`merge`).
+ */
+export type FileMode = "single" | "batch" | "merge";
+
+export interface SessionState {
+  version: number;
+  currentStep: number;
+  cleaningOptions: CleaningOptions;
+  fileMode: FileMode;
+  files: SessionFileMeta[];
+  savedAt: number;
+}
+
+export type SessionCleaningResult = CleaningResult | StreamedCleaningResult;
+
+/**
+ * The outcome of cleaning one data file of a batch.
+ */
+export interface BatchFileResult {
+  fileId: string;
+  fileName: string;
+  result: SessionCleaningResult | null;
+  /** Why the file could not be cleaned, when `result` is null. */
+  error: string | null;
+}
+
+export interface RestoredSession {
+  state: SessionState;
+  contents: Map<string, SessionFileContents>;
+  cleaningResult: SessionCleaningResult | null;
+  batchResults: BatchFileResult[];
+}
+
+/**
+ * Loads the saved session, or null if there is none or it was saved by an
+ * incompatible version.
+ */
+export const loadSession = async (): Promise<RestoredSession | null> => {
+  const state = await getRecord<SessionState>("session", STATE_KEY);
+
+  if (!state || state.version !== SESSION_VERSION) {
+    return null;
+  }
+
+  const contents = new Map<string, SessionFileContents>();
+
+  await Promise.all(
+    state.files.map(async ({ id }) => {
+      const fileContents = await getRecord<SessionFileContents>(
+        "sessionFiles",
+        id,
+      );
+
+      if (fileContents) {
+        contents.set(id, fileContents);
+      }
+    }),
+  );
+
+  const cleaningResult =
+    (await getRecord<SessionCleaningResult>("session", RESULT_KEY)) ?? null;
+
+  const batchResults =
+    (await getRecord<BatchFileResult[]>("session", BATCH_KEY)) ?? [];
+
+  return { state, contents, cleaningResult, batchResults };
+};
+
+export const saveSessionState = (state: Omit<SessionState, "version">) =>
+  putRecord<SessionState>("session", STATE_KEY, {
+    ...state,
+    version: SESSION_VERSION,
+  });
+
+export const saveSessionFile = (id: string, contents: SessionFileContents) =>
+  putRecord("sessionFiles", id, contents);
+
+export const deleteSessionFile = (id: string) =>
+  deleteRecord("sessionFiles", id);
+
+export const saveSessionResult = (result: SessionCleaningResult | null) =>
+  result
+    ? putRecord("session", RESULT_KEY, result)
+    : deleteRecord("session", RESULT_KEY);
+
+export const saveSessionBatch = (results: BatchFileResult[]) =>
+  results.length > 0
+    ? putRecord("session", BATCH_KEY, results)
+    : deleteRecord("session", BATCH_KEY);
+
+/**
+ * Deletes the saved session and every stored file.
+ */
+export const discardSession = async () => {
+  await Promise.all([clearStore("session"), clearStore("sessionFiles")]);
+};
@@ -0,0 +1,112 @@
+import { deleteRecord, getAllRecords, putRecord } from "./idb";
+
+import {
+  CleaningOptions,
+  readColumnMapping,
+  readColumnRules,
+  readSavedSchema,
+} from "@/lib/cleaner";
+
+/**
+ * Version of the library export format, bumped whenever its shape changes.
+ */
+export const TEMPLATE_LIBRARY_VERSION = 1;
+
+/**
+ * A template kept in the library: its header row plus the mapping and rules
+ * set up for it, so it can be cleaned against without uploading it again.
+ */
+export interface SavedTemplate
+  extends Pick<CleaningOptions, "columnMapping" | "columnRules" | "schema"> {
+  /** Unique within the library; saving under an existing name replaces it. */
+  name: string;
+  headers: string[];
+  savedAt: number;
+}
+
+export interface TemplateLibraryExport {
+  version: number;
+  templates: SavedTemplate[];
+}
+
+/**
+ * Returns every saved template, sorted by name.
+ */
+export const listTemplates = async () =>
+  (await getAllRecords<SavedTemplate>("templates")).sort((a, b) =>
+    a.name.localeCompare(b.name),
+  );
+
+export const saveTemplate = (template: SavedTemplate) =>
+  putRecord("templates", template.name, template);
+
+export const deleteTemplate = (name: string) => deleteRecord("templates", name);
+
+export const exportTemplateLibrary = (templates: SavedTemplate[]) =>
+  JSON.stringify(
+    {
+      version: TEMPLATE_LIBRARY_VERSION,
+      templates,
+    } satisfies TemplateLibraryExport,
+    null,
+    2,
+  );
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const readTemplate = (value: unknown): SavedTemplate => {
+  if (
+    !isRecord(value) ||
+    typeof value.name !== "string" ||
+    value.name.trim() === "" ||
+    !Array.isArray(value.headers) ||
+    !value.headers.every((header) => typeof header === "string")
+  ) {
+    throw new Error("Every template needs a name and a list of headers");
+  }
+
+  return {
+    name: value.name,
+    headers: value.headers,
+    columnMapping: readColumnMapping(value.columnMapping),
+    columnRules: readColumnRules(value.columnRules),
+    schema: readSavedSchema(value.schema),
+    savedAt: typeof value.savedAt === "number" ? value.savedAt : Date.now(),
+  };
+};
+
+/**
+ * Reads the templates out of a library export. Mappings and rules of the
+ * wrong shape are dropped, so a hand-edited file cannot break cleaning.
+ */
+export const parseTemplateLibrary = (json: string): SavedTemplate[] => {
+  let library: unknown;
+
+  try {
+    library = JSON.parse(json);
+  } catch {
+    throw new Error("The library file is not valid JSON");
+  }
+
+  if (!isRecord(library) || !Array.isArray(library.templates)) {
+    throw new Error('The library file needs a "templates" list');
+  }
+
+  if (typeof library.version !== "number") {
+    throw new Error("The library file has no format version");
+  }
+
+  if (library.version > TEMPLATE_LIBRARY_VERSION) {
+    throw new Error("The library file was made by a newer version of the app");
+  }
+
+  return library.templates.map(readTemplate);
+};
+
+/**
+ * Adds the templates to the library, replacing any with the same name.
+ */
+export const importTemplates = async (templates: SavedTemplate[]) => {
+  await Promise.all(templates.map(saveTemplate));
+};
@@ -0,0 +1,432 @@
+import { describe, expect, it, vi } from "vitest";
+
+import {
+  CleaningOptions,
+  DEFAULT_CLEANING_OPTIONS,
+  Table,
+  cleanData,
+  findSourceColumn,
+  moveStep,
+} from "@/lib/cleaner";
+
+import { loadCsvSample, withSteps } from "./fixtures";
+
+const data = loadCsvSample("sample-data.csv");
+const template = loadCsvSample("sample-template.csv");
+
+describe("cleanData", () => {
+  it("keeps only the template columns, in template order", () => {
+    const result = cleanData(data, template, DEFAULT_CLEANING_OPTIONS);
+
+    expect(result.table.headers).toEqual(template.headers);
+    expect(result.table.rows[0]).toEqual([
+      "John Doe",
+      "john.doe@email.com",
+      "Engineering",
+      "2022-01-15",
+    ]);
+    expect(result.columnsDeleted).toBe(4);
+    expect(result.totalRowsCleaned).toBe(10);
+    expect(result.duplicateRowsRemoved).toBe(0);
+  });
+
+  it("removes duplicate rows", () => {
+    const result = cleanData(data, template, withSteps("removeDuplicates"));
+
+    expect(result.duplicateRowsRemoved).toBe(2);
+    expect(result.totalRowsCleaned).toBe(8);
+  });
+
+  describe("with key columns", () => {
+    const contacts: Table = {
+      headers: ["Email", "Phone", "City"],
+      rows: [
+        ["jane@x.com", "", "Paris"],
+        ["sam@x.com", "111", ""],
+        ["jane@x.com", "222", ""],
+        ["", "333", ""],
+        ["", "444", ""],
+      ],
+    };
+    const byEmail = (
+      duplicateStrategy: CleaningOptions["duplicateStrategy"],
+    ): CleaningOptions => ({
+      ...withSteps("removeDuplicates", "convertToUppercase"),
+      duplicateKeys: ["Email"],
+      duplicateStrategy,
+    });
+
+    it("keeps the first row of each key and lists the rest", () => {
+      const result = cleanData(contacts, contacts, byEmail("keepFirst"));
+
+      expect(result.table.rows.map(([email]) => email)).toEqual([
+        "JANE@X.COM",
+        "SAM@X.COM",
+        "",
+        "",
+      ]);
+      expect(result.duplicateRowsRemoved).toBe(1);
+      expect(result.duplicates).toEqual({
+        headers: ["Source Row", "Duplicate Of", "Email", "Phone", "City"],
+        rows: [[4, 2, "JANE@X.COM", "222", ""]],
+      });
+    });
+
+    it("keeps the last row of each key, in first-seen order", () => {
+      const result = cleanData(contacts, contacts, byEmail("keepLast"));
+
+      expect(result.table.rows.slice(0, 2)).toEqual([
+        ["JANE@X.COM", "222", ""],
+        ["SAM@X.COM", "111", ""],
+      ]);
+      expect(result.duplicates.rows).toEqual([
+        [2, 4, "JANE@X.COM", "", "PARIS"],
+      ]);
+      expect(result.rowNumbers).toEqual([4, 3, 5, 6]);
+    });
+
+    it("merges non-empty values and runs the later steps on the result", () => {
+      const options = byEmail("merge");
+      const result = cleanData(contacts, contacts, {
+        ...options,
+        steps: moveStep(
+          options.steps,
+          options.steps.findIndex(({ id }) => id === "convertToUppercase"),
+          options.steps.length - 1,
+        ),
+      });
+
+      expect(result.table.rows[0]).toEqual(["JANE@X.COM", "222", "PARIS"]);
+      expect(result.totalRowsCleaned).toBe(4);
+      expect(
+        result.steps.find(({ id }) => id === "removeDuplicates"),
+      ).toMatchObject({ rowsIn: 5, rowsRemoved: 1, cellsChanged: 1 });
+    });
+
+    it("removes no rows when every key column was dropped as empty", () => {
+      const table: Table = {
+        headers: ["Email", "Notes"],
+        rows: [
+          ["jane@x.com", ""],
+          ["jane@x.com", ""],
+        ],
+      };
+      const result = cleanData(table, table, {
+        ...withSteps("removeDuplicates", "removeEmptyColumns"),
+        duplicateKeys: ["Notes"],
+      });
+
+      expect(result.table.rows).toEqual([["jane@x.com"], ["jane@x.com"]]);
+      expect(result.duplicateRowsRemoved).toBe(0);
+      expect(result.missingDuplicateKeys).toEqual(["Notes"]);
+    });
+  });
+
+  it("replaces mapped values before the steps run", () => {
+    const table: Table = {
+      headers: ["Department"],
+      rows: [["Engg"], ["Eng."], ["Sales"], ["Engineering"]],
+    };
+    const result = cleanData(table, table, {
+      ...withSteps("removeDuplicates"),
+      columnRules: {
+        Department: {
+          steps: {},
+          valueMap: { Engg: "Engineering", "Eng.": "Engineering" },
+        },
+      },
+    });
+
+    expect(result.table.rows).toEqual([["Engineering"], ["Sales"]]);
+  });
+
+  it("removes empty rows", () => {
+    const table: Table = {
+      headers: ["Name"],
+      rows: [["a"], [""], ["  "], [null]],
+    };
+    const result = cleanData(table, table, withSteps("removeEmptyRows"));
+
+    expect(result.table.rows).toEqual([["a"]]);
+  });
+
+  it("applies text transforms", () => {
+    const table: Table = {
+      headers: ["Code"],
+      rows: [["  0a-1b "], ["007"]],
+    };
+    const result = cleanData(
+      table,
+      table,
+      withSteps(
+        "trimWhitespace",
+        "convertToUppercase",
+        "removeSpecialCharacters",
+        "removeLeadingZeros",
+      ),
+    );
+
+    expect(result.table.rows).toEqual([["0A1B"], ["7"]]);
+  });
+
+  it("takes mapped data columns for template headers of another name", () => {
+    const result = cleanData(
+      { headers: ["start_date", "Name"], rows: [["2024-01-02", "Ana"]] },
+      { headers: ["Name", "Start Date"], rows: [] },
+      {
+        ...DEFAULT_CLEANING_OPTIONS,
+        columnMapping: { "Start Date": "start_date" },
+      },
+    );
+
+    expect(result.table).toEqual({
+      headers: ["Name", "Start Date"],
+      rows: [["Ana", "2024-01-02"]],
+    });
+    expect(result.columnsDeleted).toBe(0);
+  });
+
+  it("leaves out template headers mapped to no data column", () => {
+    const result = cleanData(
+      { headers: ["Dept", "Name", "Notes"], rows: [["Sales", "Ana", "x"]] },
+      { headers: ["Name", "Department", "Notes"], rows: [] },
+      {
+        ...DEFAULT_CLEANING_OPTIONS,
+        columnMapping: { Department: "Dept", Notes: null },
+      },
+    );
+
+    expect(result.table).toEqual({
+      headers: ["Name", "Department"],
+      rows: [["Ana", "Sales"]],
+    });
+    expect(result.columnsDeleted).toBe(1);
+  });
+
+  it("can emit every template column, filling those without a source", () => {
+    const data: Table = { headers: ["Name", "Notes"], rows: [["Ana", "x"]] };
+    const template: Table = { headers: ["ID", "Name", "Team"], rows: [] };
+    const result = cleanData(data, template, {
+      ...withSteps("removeEmptyRows"),
+      emitMissingColumns: true,
+      missingColumnValue: "N/A",
+    });
+
+    expect(result.table).toEqual({
+      headers: ["ID", "Name", "Team"],
+      rows: [["N/A", "Ana", "N/A"]],
+    });
+    expect(result.missingColumns).toEqual(["ID", "Team"]);
+    expect(
+      cleanData(data, template, DEFAULT_CLEANING_OPTIONS).table.headers,
+    ).toEqual(["Name"]);
+  });
+
+  it("applies each column's character allowlist", () => {
+    const table: Table = {
+      headers: ["Name", "Email"],
+      rows: [["Jos\u00e9 (Jr.)", "jose@example.com"]],
+    };
+    const result = cleanData(table, table, {
+      ...withSteps("removeSpecialCharacters"),
+      columnRules: { Email: { steps: {}, characterAllowlist: "@." } },
+    });
+
+    expect(result.table.rows).toEqual([["Jos\u00e9 Jr", "jose@example.com"]]);
+  });
+
+  it("lets column rules switch cell steps off and on per column", () => {
+    const table: Table = {
+      headers: ["Name", "Zip", "Code"],
+      rows: [["ana", "00501", "007"]],
+    };
+    const result = cleanData(table, table, {
+      ...withSteps("convertToUppercase", "removeLeadingZeros"),
+      columnRules: {
+        Zip: { steps: { removeLeadingZeros: false } },
+        Code: { steps: { convertToUppercase: false } },
+      },
+    });
+
+    expect(result.table.rows).toEqual([["ANA", "00501", "7"]]);
+    expect(result.steps.map(({ cellsChanged }) => cellsChanged)).toEqual([
+      1, 1,
+    ]);
+  });
+
+  it("runs a step switched on only by a column rule", () => {
+    const table: Table = {
+      headers: ["Name", "Email"],
+      rows: [["Ana", "Ana@Example.com"]],
+    };
+    const result = cleanData(table, table, {
+      ...DEFAULT_CLEANING_OPTIONS,
+      columnRules: { Email: { steps: { convertToLowercase: true } } },
+    });
+
+    expect(result.table.rows).toEqual([["Ana", "ana@example.com"]]);
+    expect(result.steps.map(({ id }) => id)).toEqual(["convertToLowercase"]);
+  });
+
+  it("normalizes Persian text before removing duplicates", () => {
+    const table: Table = {
+      headers: ["Name", "Phone"],
+      rows: [
+        ["\u0639\u0644\u064a", "\u06f0\u06f9\u06f1\u06f2"],
+        ["\u0639\u0644\u06cc", "0912"],
+        ["\u0639\u0644\u06cc\u200c", "\u0660\u0669\u0661\u0662"],
+      ],
+    };
+    const result = cleanData(
+      table,
+      table,
+      withSteps("removeDuplicates", "normalizePersian"),
+    );
+
+    expect(result.table.rows).toEqual([["\u0639\u0644\u06cc", "0912"]]);
+    expect(result.duplicateRowsRemoved).toBe(2);
+    expect(result.steps[0]).toEqual({
+      id: "normalizePersian",
+      rowsIn: 3,
+      rowsRemoved: 0,
+      cellsChanged: 4,
+    });
+  });
+
+  it("keeps numeric zero cells from spreadsheets", () => {
+    const table: Table = { headers: ["Count"], rows: [[0]] };
+
+    expect(
+      cleanData(table, table, DEFAULT_CLEANING_OPTIONS).table.rows,
+    ).toEqual([[0]]);
+  });
+
+  it("reports progress through each cleaning stage in order", () => {
+    const onProgress = vi.fn();
+
+    cleanData(data, template, withSteps("trimWhitespace"), onProgress);
+
+    const completed = onProgress.mock.calls
+      .map(([progress]) => progress)
+      .filter(({ percent }) => percent === 100)
+      .map(({ stage }) => stage);
+
+    expect(completed).toEqual(["scan", "clean"]);
+  });
+
+  it("removes template columns that are empty in every row", () => {
+    const table: Table = {
+      headers: ["Name", "Notes", "Extra"],
+      rows: [
+        ["a", "", "x"],
+        ["b", "  ", "y"],
+      ],
+    };
+    const result = cleanData(
+      table,
+      { headers: ["Name", "Notes"], rows: [] },
+      withSteps("removeEmptyColumns"),
+    );
+
+    expect(result.table.headers).toEqual(["Name"]);
+    expect(result.emptyColumnsRemoved).toBe(1);
+    expect(result.columnsDeleted).toBe(2);
+  });
+
+  it("runs the steps in the given order", () => {
+    const table: Table = {
+      headers: ["Name"],
+      rows: [["Ann "], ["ann"], ["ANN"]],
+    };
+    const options = withSteps(
+      "trimWhitespace",
+      "convertToLowercase",
+      "removeDuplicates",
+    );
+    const result = cleanData(table, table, options);
+
+    expect(result.table.rows).toEqual([["ann"]]);
+    expect(result.steps).toEqual([
+      { id: "trimWhitespace", rowsIn: 3, rowsRemoved: 0, cellsChanged: 1 },
+      { id: "convertToLowercase", rowsIn: 3, rowsRemoved: 0, cellsChanged: 2 },
+      { id: "removeDuplicates", rowsIn: 3, rowsRemoved: 2, cellsChanged: 0 },
+    ]);
+
+    const dedupeFirst = {
+      ...options,
+      steps: moveStep(
+        options.steps,
+        options.steps.findIndex(({ id }) => id === "removeDuplicates"),
+        0,
+      ),
+    };
+
+    expect(cleanData(table, table, dedupeFirst).table.rows).toEqual([
+      ["ann"],
+      ["ann"],
+      ["ann"],
+    ]);
+  });
+
+  it("counts dropped cells for empty columns and skips removed rows", () => {
+    const table: Table = {
+      headers: ["Name", "Notes"],
+      rows: [
+        ["a", ""],
+        ["", ""],
+        ["b", ""],
+      ],
+    };
+    const result = cleanData(
+      table,
+      table,
+      withSteps("removeEmptyRows", "removeEmptyColumns"),
+    );
+
+    expect(result.steps).toEqual([
+      { id: "removeEmptyRows", rowsIn: 3, rowsRemoved: 1, cellsChanged: 0 },
+      { id: "removeEmptyColumns", rowsIn: 2, rowsRemoved: 0, cellsChanged: 2 },
+    ]);
+  });
+
+  it("counts normalized cells and standardized dates", () => {
+    const table: Table = {
+      headers: ["Name", "Start"],
+      rows: [
+        ["Jos\u0065\u0301\u00a0Diaz", "Jan 15, 2022"],
+        ["Ann", "2022-01-15"],
+      ],
+    };
+    const result = cleanData(table, table, {
+      ...withSteps("normalizeText", "standardizeDates"),
+      dateFormat: "DD/MM/YYYY",
+    });
+
+    expect(result.table.rows).toEqual([
+      ["Jos\u00e9 Diaz", "15/01/2022"],
+      ["Ann", "15/01/2022"],
+    ]);
+    expect(
+      result.steps.map(({ id, cellsChanged }) => [id, cellsChanged]),
+    ).toEqual([
+      ["normalizeText", 1],
+      ["standardizeDates", 2],
+    ]);
+  });
+});
+
+describe("findSourceColumn", () => {
+  const dataHeaders = ["Dept", "Name"];
+
+  it("prefers the mapped column and falls back to the same name", () => {
+    expect(
+      findSourceColumn(dataHeaders, "Department", { Department: "Dept" }),
+    ).toBe(0);
+    expect(findSourceColumn(dataHeaders, "Name", { Name: "Missing" })).toBe(1);
+    expect(findSourceColumn(dataHeaders, "Name")).toBe(1);
+  });
+
+  it("finds nothing for headers mapped to null", () => {
+    expect(findSourceColumn(dataHeaders, "Name", { Name: null })).toBe(-1);
+  });
+});
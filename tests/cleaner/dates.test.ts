@@ -0,0 +1,315 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  DEFAULT_CLEANING_OPTIONS,
+  Table,
+  addDateStats,
+  cleanData,
+  createDateStats,
+  excelSerialToDate,
+  formatDate,
+  isDateHeader,
+  parseDate,
+  planDateColumn,
+  readDate,
+} from "@/lib/cleaner";
+
+import { withSteps } from "./fixtures";
+
+const statsFor = (values: string[]) => {
+  const stats = createDateStats();
+
+  values.forEach((value) => addDateStats(stats, value));
+
+  return stats;
+};
+
+describe("parseDate", () => {
+  it("parses year-first dates with an optional time", () => {
+    expect(parseDate("2022-01-15")).toEqual({ year: 2022, month: 1, day: 15 });
+    expect(parseDate("2022/1/5 10:30")).toEqual({
+      year: 2022,
+      month: 1,
+      day: 5,
+    });
+    expect(parseDate("2022-01-15T10:30:00Z")).toEqual({
+      year: 2022,
+      month: 1,
+      day: 15,
+    });
+  });
+
+  it("parses textual months", () => {
+    expect(parseDate("Jan 15, 2022")).toEqual({
+      year: 2022,
+      month: 1,
+      day: 15,
+    });
+    expect(parseDate("15 January 2022")).toEqual({
+      year: 2022,
+      month: 1,
+      day: 15,
+    });
+    expect(parseDate("3rd Sept 2021")).toEqual({
+      year: 2021,
+      month: 9,
+      day: 3,
+    });
+  });
+
+  it("parses numeric dates only when day and month can be told apart", () => {
+    expect(parseDate("25/12/2022")).toEqual({ year: 2022, month: 12, day: 25 });
+    expect(parseDate("12/25/2022")).toEqual({ year: 2022, month: 12, day: 25 });
+    expect(parseDate("03/04/2022")).toBeNull();
+  });
+
+  it("converts Jalali dates to Gregorian", () => {
+    expect(parseDate("1401/10/25")).toEqual({ year: 2023, month: 1, day: 15 });
+  });
+
+  it("reads Jalali dates with the year last as day first", () => {
+    expect(readDate("12/05/1401")).toEqual({
+      format: "jalali",
+      parts: { year: 1401, month: 5, day: 12 },
+    });
+    expect(parseDate("25.10.1401")).toEqual({ year: 2023, month: 1, day: 15 });
+    expect(parseDate("10/25/1401")).toBeNull();
+  });
+
+  it("rejects impossible dates and non-dates", () => {
+    expect(parseDate("2022-02-30")).toBeNull();
+    expect(parseDate("555-1234")).toBeNull();
+    expect(parseDate("Engineering")).toBeNull();
+  });
+});
+
+describe("formatDate", () => {
+  it("formats every supported token", () => {
+    const date = { year: 2022, month: 3, day: 7 };
+
+    expect(formatDate(date, "YYYY-MM-DD")).toBe("2022-03-07");
+    expect(formatDate(date, "D/M/YYYY")).toBe("7/3/2022");
+    expect(formatDate(date, "DD MMM YYYY")).toBe("07 Mar 2022");
+    expect(formatDate(date, "DD MMM YYYY", "jalali")).toBe("07 Khordad 2022");
+  });
+});
+
+describe("readDate", () => {
+  it("names the input format of each value", () => {
+    expect(readDate("2022-01-15")?.format).toBe("iso");
+    expect(readDate("12/25/2022")?.format).toBe("us");
+    expect(readDate("25.12.2022")?.format).toBe("eu");
+    expect(readDate("Jan 15, 2022")?.format).toBe("textual");
+    expect(readDate("1401/10/25")?.format).toBe("jalali");
+  });
+
+  it("reads Persian and Arabic-Indic digits", () => {
+    expect(
+      readDate("\u06f1\u06f4\u06f0\u06f1/\u06f1\u06f0/\u06f2\u06f5"),
+    ).toEqual({
+      format: "jalali",
+      parts: { year: 1401, month: 10, day: 25 },
+    });
+    expect(
+      readDate("\u0662\u0660\u0662\u0663-\u0660\u0661-\u0661\u0665")?.format,
+    ).toBe("iso");
+  });
+
+  it("keeps both readings of an ambiguous date", () => {
+    expect(readDate("03/04/2022")).toEqual({
+      format: "ambiguous",
+      monthFirst: { year: 2022, month: 3, day: 4 },
+      dayFirst: { year: 2022, month: 4, day: 3 },
+    });
+  });
+
+  it("reads bare numbers as Excel serials only when asked", () => {
+    expect(readDate("44927")).toBeNull();
+    expect(readDate("44927", true)).toEqual({
+      format: "excelSerial",
+      parts: { year: 2023, month: 1, day: 1 },
+    });
+  });
+});
+
+describe("excelSerialToDate", () => {
+  it("ignores the time of day and serials before March 1900", () => {
+    expect(excelSerialToDate(61)).toEqual({ year: 1900, month: 3, day: 1 });
+    expect(excelSerialToDate(44927.75)).toEqual({
+      year: 2023,
+      month: 1,
+      day: 1,
+    });
+    expect(excelSerialToDate(60)).toBeNull();
+  });
+});
+
+describe("isDateHeader", () => {
+  it("recognizes date words in any header style", () => {
+    expect(isDateHeader("Start Date")).toBe(true);
+    expect(isDateHeader("hire_date")).toBe(true);
+    expect(isDateHeader("createdAt")).toBe(true);
+    expect(isDateHeader("DOB")).toBe(true);
+    expect(isDateHeader("Gender")).toBe(false);
+    expect(isDateHeader("Salary")).toBe(false);
+  });
+});
+
+describe("planDateColumn", () => {
+  it("settles ambiguous dates from the column's unambiguous ones", () => {
+    const stats = statsFor(["03/04/2022", "25/12/2022"]);
+
+    expect(planDateColumn("Start", stats, "flag")).toEqual({
+      isDateColumn: true,
+      excelSerials: false,
+      dayFirst: true,
+    });
+  });
+
+  it("flags ambiguous dates when the column disagrees with itself", () => {
+    const stats = statsFor(["03/04/2022", "25/12/2022", "12/25/2022"]);
+
+    expect(planDateColumn("Start", stats, "flag").dayFirst).toBeNull();
+    expect(planDateColumn("Start", stats, "monthFirst").dayFirst).toBe(false);
+  });
+
+  it("only treats numeric columns as serials under a date header", () => {
+    const stats = statsFor(["44927", "45000"]);
+
+    expect(planDateColumn("Salary", stats, "flag").isDateColumn).toBe(false);
+    expect(planDateColumn("Hire Date", stats, "flag")).toMatchObject({
+      isDateColumn: true,
+      excelSerials: true,
+    });
+  });
+
+  it("skips columns where most values are not dates", () => {
+    const stats = statsFor(["Engineering", "Sales", "2022-01-15"]);
+
+    expect(planDateColumn("Notes", stats, "flag").isDateColumn).toBe(false);
+  });
+});
+
+describe("cleanData with standardizeDates", () => {
+  const options = withSteps("standardizeDates");
+
+  it("flags ambiguous dates and summarizes each date column", () => {
+    const table: Table = {
+      headers: ["Name", "Start", "Hired"],
+      rows: [
+        ["Ann", "03/04/2022", 44927],
+        ["Bob", "12/25/2022", "2023-01-02"],
+        ["Cy", "11/12/2022", "soon"],
+        ["Di", "not a date", "Jan 4, 2023"],
+        ["Ed", "", 44930],
+      ],
+    };
+    const result = cleanData(table, table, options);
+
+    expect(result.table.rows.map((row) => row[1])).toEqual([
+      "2022-03-04",
+      "2022-12-25",
+      "2022-11-12",
+      "not a date",
+      "",
+    ]);
+    expect(result.table.rows.map((row) => row[2])).toEqual([
+      "2023-01-01",
+      "2023-01-02",
+      "soon",
+      "2023-01-04",
+      "2023-01-04",
+    ]);
+    expect(result.dateColumns).toEqual([
+      {
+        column: "Start",
+        formats: {
+          iso: 0,
+          us: 3,
+          eu: 0,
+          excelSerial: 0,
+          textual: 0,
+          jalali: 0,
+        },
+        dayFirst: false,
+        ambiguous: 0,
+        failed: 1,
+        ambiguousSamples: [],
+        failedSamples: ["not a date"],
+      },
+      {
+        column: "Hired",
+        formats: {
+          iso: 1,
+          us: 0,
+          eu: 0,
+          excelSerial: 2,
+          textual: 1,
+          jalali: 0,
+        },
+        dayFirst: null,
+        ambiguous: 0,
+        failed: 1,
+        ambiguousSamples: [],
+        failedSamples: ["soon"],
+      },
+    ]);
+  });
+
+  it("leaves ambiguous dates unchanged when the order is unknown", () => {
+    const table: Table = {
+      headers: ["Start"],
+      rows: [["03/04/2022"], ["05/06/2022"], ["2022-01-15"]],
+    };
+    const result = cleanData(table, table, options);
+
+    expect(result.table.rows).toEqual([
+      ["03/04/2022"],
+      ["05/06/2022"],
+      ["2022-01-15"],
+    ]);
+    expect(result.steps[0].cellsChanged).toBe(0);
+    expect(result.dateColumns[0]).toMatchObject({
+      ambiguous: 2,
+      ambiguousSamples: ["03/04/2022", "05/06/2022"],
+    });
+
+    const dayFirst = cleanData(table, table, {
+      ...options,
+      ambiguousDates: "dayFirst",
+    });
+
+    expect(dayFirst.table.rows[0]).toEqual(["2022-04-03"]);
+    expect(dayFirst.dateColumns[0].formats.eu).toBe(2);
+  });
+
+  it("converts between calendars with per-column outputs", () => {
+    const table: Table = {
+      headers: ["Hired", "Paid"],
+      rows: [
+        ["1401/10/25", "2023-01-15"],
+        ["2023-03-21", "1402/01/01"],
+      ],
+    };
+    const result = cleanData(table, table, {
+      ...options,
+      dateCalendar: "jalali",
+      dateFormat: "YYYY/MM/DD",
+      columnRules: {
+        Paid: {
+          steps: {},
+          dateOutput: { calendar: "gregorian", format: "DD MMM YYYY" },
+        },
+      },
+    });
+
+    expect(result.table.rows).toEqual([
+      ["1401/10/25", "15 Jan 2023"],
+      ["1402/01/01", "21 Mar 2023"],
+    ]);
+    expect(result.dateColumns.map(({ formats }) => formats)).toEqual([
+      { iso: 1, us: 0, eu: 0, excelSerial: 0, textual: 0, jalali: 1 },
+      { iso: 1, us: 0, eu: 0, excelSerial: 0, textual: 0, jalali: 1 },
+    ]);
+  });
+});
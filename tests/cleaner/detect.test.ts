@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+
+import { detectFileTypes } from "@/lib/cleaner";
+
+describe("detectFileTypes", () => {
+  it("leaves a single file unassigned", () => {
+    const files = [{ id: "a", size: 10, rowCount: 5 }];
+
+    expect(detectFileTypes(files)).toBe(files);
+  });
+
+  it("marks the file with most rows as data and the runner-up as template", () => {
+    const [template, data, other] = detectFileTypes([
+      { id: "template", size: 100, rowCount: 0 },
+      { id: "data", size: 50, rowCount: 10 },
+      { id: "other", size: 10, rowCount: 0 },
+    ]);
+
+    expect(data).toMatchObject({ isDataFile: true, isTemplateFile: false });
+    expect(template).toMatchObject({ isDataFile: false, isTemplateFile: true });
+    expect(other).toMatchObject({ isDataFile: false, isTemplateFile: false });
+  });
+
+  it("keeps a library template and only detects the data file", () => {
+    const [template, data, other] = detectFileTypes([
+      { id: "library", size: 0, rowCount: 0, isLibraryTemplate: true },
+      { id: "data", size: 50, rowCount: 10 },
+      { id: "other", size: 10, rowCount: 2 },
+    ]);
+
+    expect(template).toMatchObject({ isDataFile: false, isTemplateFile: true });
+    expect(data).toMatchObject({ isDataFile: true, isTemplateFile: false });
+    expect(other).toMatchObject({ isDataFile: false, isTemplateFile: false });
+  });
+
+  it("marks every file but the one with fewest rows as data in batch mode", () => {
+    const [first, template, second] = detectFileTypes(
+      [
+        { id: "first", size: 50, rowCount: 10 },
+        { id: "template", size: 100, rowCount: 0 },
+        { id: "second", size: 10, rowCount: 3 },
+      ],
+      true,
+    );
+
+    expect(template).toMatchObject({ isDataFile: false, isTemplateFile: true });
+    expect(first).toMatchObject({ isDataFile: true, isTemplateFile: false });
+    expect(second).toMatchObject({ isDataFile: true, isTemplateFile: false });
+  });
+
+  it("keeps a library template in batch mode", () => {
+    const [template, first, second] = detectFileTypes(
+      [
+        { id: "library", size: 0, rowCount: 0, isLibraryTemplate: true },
+        { id: "first", size: 50, rowCount: 10 },
+        { id: "second", size: 10, rowCount: 2 },
+      ],
+      true,
+    );
+
+    expect(template).toMatchObject({ isDataFile: false, isTemplateFile: true });
+    expect(first).toMatchObject({ isDataFile: true, isTemplateFile: false });
+    expect(second).toMatchObject({ isDataFile: true, isTemplateFile: false });
+  });
+});
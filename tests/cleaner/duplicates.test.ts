@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+
+import { createDuplicateKey, pickSurvivor } from "@/lib/cleaner";
+
+describe("createDuplicateKey", () => {
+  it("keys whole rows without key columns", () => {
+    const key = createDuplicateKey([]);
+
+    expect(key(["a", "1"])).toBe(key(["a", "1"]));
+    expect(key(["a", "1"])).not.toBe(key(["a", "2"]));
+  });
+
+  it("keys only the key columns", () => {
+    const key = createDuplicateKey([0]);
+
+    expect(key(["a", "1"])).toBe(key(["a", "2"]));
+  });
+
+  it("gives rows with empty keys no key", () => {
+    expect(createDuplicateKey([0, 1])(["", " ", "x"])).toBeNull();
+  });
+
+  it("keys the exact cells unless hashed", () => {
+    expect(createDuplicateKey([])(["a", 1])).toBe('["a",1]');
+    expect(createDuplicateKey([], true)(["a", 1])).not.toBe('["a",1]');
+  });
+});
+
+describe("pickSurvivor", () => {
+  const group = [
+    ["Jane", "", ""],
+    ["Jane", "555", ""],
+    ["Jane", "", "Paris"],
+  ];
+
+  it("keeps the first or last row", () => {
+    expect(pickSurvivor(group, "keepFirst")).toEqual({
+      index: 0,
+      row: group[0],
+      cellsFilled: 0,
+    });
+    expect(pickSurvivor(group, "keepLast").index).toBe(2);
+  });
+
+  it("keeps the first of the most complete rows", () => {
+    expect(pickSurvivor(group, "mostComplete").index).toBe(1);
+  });
+
+  it("merges non-empty values into the first row", () => {
+    expect(pickSurvivor(group, "merge")).toEqual({
+      index: 0,
+      row: ["Jane", "555", "Paris"],
+      cellsFilled: 2,
+    });
+  });
+});
@@ -0,0 +1,68 @@
+import * as XLSX from "xlsx";
+import { describe, expect, it } from "vitest";
+
+import {
+  getDownloadFilename,
+  getOutputFilenames,
+  parseCsv,
+  tableToCsv,
+  tableToXlsx,
+} from "@/lib/cleaner";
+
+const table = {
+  headers: ["Name", "Note"],
+  rows: [["Jane", 'says "hi", twice']],
+};
+
+describe("tableToCsv", () => {
+  it("round-trips through parseCsv", () => {
+    expect(parseCsv(tableToCsv(table))).toEqual(table);
+  });
+});
+
+describe("tableToXlsx", () => {
+  it("writes a single Cleaned Data sheet", () => {
+    const workbook = XLSX.read(tableToXlsx(table), { type: "array" });
+
+    expect(workbook.SheetNames).toEqual(["Cleaned Data"]);
+    expect(
+      XLSX.utils.sheet_to_json(workbook.Sheets["Cleaned Data"], { header: 1 }),
+    ).toEqual([table.headers, ...table.rows]);
+  });
+});
+
+describe("getDownloadFilename", () => {
+  it("stamps the file name with the ISO date", () => {
+    expect(
+      getDownloadFilename(
+        "csv",
+        "cleaned-data",
+        new Date("2024-01-31T12:00:00Z"),
+      ),
+    ).toBe("cleaned-data-2024-01-31.csv");
+  });
+});
+
+describe("getOutputFilenames", () => {
+  it("names outputs after their sources and numbers clashes", () => {
+    expect(
+      getOutputFilenames([
+        { name: "sales.xlsx", format: "csv" },
+        { name: "Sales.csv", format: "csv" },
+        { name: "sales.csv", format: "xlsx" },
+        { name: "notes", format: "csv" },
+      ]),
+    ).toEqual([
+      "sales-cleaned.csv",
+      "Sales-cleaned-2.csv",
+      "sales-cleaned.xlsx",
+      "notes-cleaned.csv",
+    ]);
+  });
+
+  it("takes a suffix", () => {
+    expect(
+      getOutputFilenames([{ name: "sales.csv", format: "csv" }], "rejects"),
+    ).toEqual(["sales-rejects.csv"]);
+  });
+});
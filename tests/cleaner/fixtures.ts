@@ -0,0 +1,37 @@
+import { readFileSync } from "node:fs";
+import path from "node:path";
+
+import {
+  CleaningOptions,
+  CleaningStepId,
+  DEFAULT_CLEANING_OPTIONS,
+  enableSteps,
+  parseCsv,
+  parseWorkbook,
+} from "@/lib/cleaner";
+
+const root = path.resolve(__dirname, "../..");
+
+export const readSample = (name: string) => readFileSync(path.join(root, name));
+
+export const loadCsvSample = (name: string) =>
+  parseCsv(readSample(name).toString("utf-8"));
+
+export const loadXlsxSample = (name: string) => {
+  const buffer = readSample(name);
+
+  return parseWorkbook(
+    buffer.buffer.slice(
+      buffer.byteOffset,
+      buffer.byteOffset + buffer.byteLength,
+    ) as ArrayBuffer,
+  );
+};
+
+/**
+ * The default options with the given cleaning steps enabled.
+ */
+export const withSteps = (...ids: CleaningStepId[]): CleaningOptions => ({
+  ...DEFAULT_CLEANING_OPTIONS,
+  steps: enableSteps(DEFAULT_CLEANING_OPTIONS.steps, ids),
+});
@@ -0,0 +1,168 @@
+import { describe, expect, it, vi } from "vitest";
+
+import {
+  Table,
+  applyFuzzyClusters,
+  cleanData,
+  findFuzzyClusters,
+  soundex,
+  toFuzzyKey,
+} from "@/lib/cleaner";
+
+import { withSteps } from "./fixtures";
+
+const people: Table = {
+  headers: ["Name", "City"],
+  rows: [
+    ["Jonathan Smith", "Paris"],
+    ["Robert Jones", "Rome"],
+    ["Jonathon Smith", ""],
+    ["Smith, Jonathan", "Paris"],
+    ["Rupert Jones", "Rome"],
+  ],
+};
+
+describe("soundex", () => {
+  it("codes words that sound alike the same", () => {
+    expect(soundex("Robert")).toBe("R163");
+    expect(soundex("Rupert")).toBe("R163");
+    expect(soundex("Ashcraft")).toBe("A261");
+    expect(soundex("Lee")).toBe("L000");
+  });
+
+  it("leaves words without Latin letters alone", () => {
+    expect(soundex("علی")).toBe("علی");
+  });
+});
+
+describe("toFuzzyKey", () => {
+  it("compares words, ignoring case and punctuation", () => {
+    expect(toFuzzyKey("Smith, Jonathan", "editDistance")).toBe(
+      "smith jonathan",
+    );
+    expect(toFuzzyKey("Smith, Jonathan", "tokenSort")).toBe("jonathan smith");
+    expect(toFuzzyKey(null, "tokenSort")).toBe("");
+  });
+});
+
+describe("findFuzzyClusters", () => {
+  it("clusters values with similar spelling", () => {
+    expect(findFuzzyClusters(people, ["Name"], "editDistance", 0.9)).toEqual([
+      { rows: [0, 2], score: 13 / 14 },
+    ]);
+  });
+
+  it("clusters values with the same words in any order", () => {
+    expect(
+      findFuzzyClusters(people, ["Name"], "tokenSort", 0.9)[0].rows,
+    ).toEqual([0, 2, 3]);
+  });
+
+  it("clusters values that sound alike", () => {
+    expect(findFuzzyClusters(people, ["Name"], "phonetic", 1)).toEqual([
+      { rows: [0, 2], score: 1 },
+      { rows: [1, 4], score: 1 },
+    ]);
+  });
+
+  it("averages the columns, skipping those empty in both rows", () => {
+    expect(
+      findFuzzyClusters(people, ["Name", "City"], "tokenSort", 0.95),
+    ).toEqual([{ rows: [0, 3], score: 1 }]);
+  });
+
+  it("reports progress and refuses more comparisons than allowed", () => {
+    const onProgress = vi.fn();
+
+    findFuzzyClusters(people, ["Name"], "editDistance", 0.85, onProgress);
+
+    expect(onProgress).toHaveBeenLastCalledWith({
+      stage: "fuzzy",
+      percent: 100,
+    });
+    expect(() =>
+      findFuzzyClusters(people, ["Name"], "editDistance", 0.85, undefined, 1),
+    ).toThrow("Too many rows");
+  });
+});
+
+describe("applyFuzzyClusters", () => {
+  it("keeps one row of each accepted cluster and lists the rest", () => {
+    const result = cleanData(people, people, {
+      ...withSteps("removeDuplicates"),
+      fuzzyColumns: ["Name"],
+      fuzzyMethod: "tokenSort",
+      fuzzyThreshold: 0.9,
+    });
+
+    expect(result.fuzzyClusters).toHaveLength(1);
+
+    const applied = applyFuzzyClusters(
+      result,
+      result.fuzzyClusters,
+      "mostComplete",
+    );
+
+    expect(applied.table.rows).toEqual([
+      ["Jonathan Smith", "Paris"],
+      ["Robert Jones", "Rome"],
+      ["Rupert Jones", "Rome"],
+    ]);
+    expect(applied.rowNumbers).toEqual([2, 3, 6]);
+    expect(applied.duplicates.rows).toEqual([
+      [4, 2, "Jonathon Smith", ""],
+      [5, 2, "Smith, Jonathan", "Paris"],
+    ]);
+    expect(applied.duplicateRowsRemoved).toBe(2);
+    expect(applied.totalRowsCleaned).toBe(3);
+    expect(applied.fuzzyClusters).toEqual([]);
+  });
+
+  const names: Table = {
+    headers: ["Name", "Phone"],
+    rows: [
+      ["Jon Doe", ""],
+      ["John Doe", "555"],
+      ["Zed", ""],
+    ],
+  };
+  const cleanNames = () =>
+    cleanData(names, names, {
+      ...withSteps("removeDuplicates"),
+      fuzzyColumns: ["Name"],
+      fuzzyThreshold: 0.8,
+    });
+
+  it("keeps a later survivor once, in the first row's place", () => {
+    const result = cleanNames();
+    const applied = applyFuzzyClusters(
+      result,
+      result.fuzzyClusters,
+      "keepLast",
+    );
+
+    expect(applied.table.rows).toEqual([
+      ["John Doe", "555"],
+      ["Zed", ""],
+    ]);
+    expect(applied.rowNumbers).toEqual([3, 4]);
+    expect(applied.duplicates.rows).toEqual([[2, 3, "Jon Doe", ""]]);
+    expect(applied.totalRowsCleaned).toBe(2);
+  });
+
+  it("keeps the most complete row when it is not the first", () => {
+    const result = cleanNames();
+    const applied = applyFuzzyClusters(
+      result,
+      result.fuzzyClusters,
+      "mostComplete",
+    );
+
+    expect(applied.table.rows).toEqual([
+      ["John Doe", "555"],
+      ["Zed", ""],
+    ]);
+    expect(applied.rowNumbers).toEqual([3, 4]);
+    expect(applied.duplicateRowsRemoved).toBe(1);
+  });
+});
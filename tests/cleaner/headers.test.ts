@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  editDistance,
+  headerSimilarity,
+  normalizeHeader,
+  proposeHeaderMatches,
+} from "@/lib/cleaner";
+
+describe("normalizeHeader", () => {
+  it("ignores case, spacing, punctuation and underscores", () => {
+    expect(
+      [
+        "Start Date",
+        "start_date",
+        "Start_Date ",
+        "StartDate",
+        "START-DATE",
+      ].map(normalizeHeader),
+    ).toEqual(Array(5).fill("start date"));
+  });
+});
+
+describe("editDistance", () => {
+  it("counts swapped neighbours as one edit", () => {
+    expect(editDistance("email", "emial")).toBe(1);
+    expect(editDistance("kitten", "sitting")).toBe(3);
+    expect(editDistance("", "abc")).toBe(3);
+  });
+});
+
+describe("headerSimilarity", () => {
+  it("scores headers that only differ in formatting as certain", () => {
+    expect(headerSimilarity("start_date", "Start Date")).toBe(1);
+    expect(headerSimilarity("Emial", "Email")).toBe(0.8);
+    expect(headerSimilarity("Dept", "Department")).toBeLessThan(0.5);
+  });
+});
+
+describe("proposeHeaderMatches", () => {
+  it("pairs each template header with its best unused data column", () => {
+    const matches = proposeHeaderMatches(
+      ["first_name", "Emial", "Email Address", "Start_Date ", "Notes"],
+      ["First Name", "Email", "Start Date", "Notes"],
+    );
+
+    expect(matches).toEqual([
+      { templateHeader: "First Name", dataHeader: "first_name", confidence: 1 },
+      { templateHeader: "Email", dataHeader: "Emial", confidence: 0.8 },
+      {
+        templateHeader: "Start Date",
+        dataHeader: "Start_Date ",
+        confidence: 1,
+      },
+    ]);
+  });
+
+  it("leaves out headers that are already mapped", () => {
+    const matches = proposeHeaderMatches(
+      ["first_name", "start_date"],
+      ["First Name", "Start Date"],
+      { "First Name": "first_name" },
+    );
+
+    expect(matches.map(({ templateHeader }) => templateHeader)).toEqual([
+      "Start Date",
+    ]);
+  });
+});
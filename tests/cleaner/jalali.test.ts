@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  gregorianToJalali,
+  isJalaliLeapYear,
+  jalaliToGregorian,
+  toValidJalaliDate,
+} from "@/lib/cleaner";
+
+describe("Jalali conversion", () => {
+  it("converts known dates in both directions", () => {
+    const pairs = [
+      [
+        { year: 1401, month: 10, day: 25 },
+        { year: 2023, month: 1, day: 15 },
+      ],
+      [
+        { year: 1403, month: 1, day: 1 },
+        { year: 2024, month: 3, day: 20 },
+      ],
+      [
+        { year: 1399, month: 12, day: 30 },
+        { year: 2021, month: 3, day: 20 },
+      ],
+      [
+        { year: 1357, month: 11, day: 22 },
+        { year: 1979, month: 2, day: 11 },
+      ],
+    ];
+
+    for (const [jalali, gregorian] of pairs) {
+      expect(jalaliToGregorian(jalali)).toEqual(gregorian);
+      expect(gregorianToJalali(gregorian)).toEqual(jalali);
+    }
+  });
+
+  it("knows which years have a 30th of Esfand", () => {
+    expect(isJalaliLeapYear(1399)).toBe(true);
+    expect(isJalaliLeapYear(1400)).toBe(false);
+    expect(isJalaliLeapYear(1403)).toBe(true);
+    expect(toValidJalaliDate(1400, 12, 30)).toBeNull();
+    expect(toValidJalaliDate(1401, 7, 31)).toBeNull();
+    expect(toValidJalaliDate(1401, 6, 31)).toEqual({
+      year: 1401,
+      month: 6,
+      day: 31,
+    });
+  });
+});
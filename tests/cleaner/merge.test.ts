@@ -0,0 +1,148 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  DEFAULT_CLEANING_OPTIONS,
+  SOURCE_FILE_HEADER,
+  Table,
+  cleanMergedData,
+  mergeTables,
+} from "@/lib/cleaner";
+
+import { withSteps } from "./fixtures";
+
+const template: Table = { headers: ["Name", "Email", "Phone"], rows: [] };
+const january = {
+  name: "january.csv",
+  table: {
+    headers: ["Email", "Name", "Notes"],
+    rows: [
+      ["jane@example.com", "Jane", "vip"],
+      ["sam@example.com", "Sam", ""],
+    ],
+  },
+};
+const february = {
+  name: "february.csv",
+  table: {
+    headers: ["Full Name", "Email"],
+    rows: [
+      ["Sam", "sam@example.com"],
+      ["Ali", "ali@example.com"],
+    ],
+  },
+};
+
+describe("mergeTables", () => {
+  it("aligns each file's columns onto the template by mapping", () => {
+    const merged = mergeTables([january, february], template.headers, {
+      Name: "Full Name",
+    });
+
+    expect(merged.table).toEqual({
+      headers: ["Name", "Email", SOURCE_FILE_HEADER],
+      rows: [
+        ["Jane", "jane@example.com", "january.csv"],
+        ["Sam", "sam@example.com", "january.csv"],
+        ["Sam", "sam@example.com", "february.csv"],
+        ["Ali", "ali@example.com", "february.csv"],
+      ],
+    });
+    expect(merged.rowNumbers).toEqual([2, 3, 2, 3]);
+    expect(merged.unusedColumns).toEqual(["Notes"]);
+  });
+
+  it("fills columns a file lacks with blanks", () => {
+    const merged = mergeTables([january, february], template.headers);
+
+    expect(merged.table.rows[2]).toEqual([
+      "",
+      "sam@example.com",
+      "february.csv",
+    ]);
+    expect(merged.unusedColumns).toEqual(["Notes", "Full Name"]);
+  });
+});
+
+describe("cleanMergedData", () => {
+  const options = {
+    ...withSteps("removeDuplicates"),
+    columnMapping: { Name: "Full Name" },
+  };
+
+  it("removes duplicates across files", () => {
+    const result = cleanMergedData([january, february], template, options);
+
+    expect(result.table.headers).toEqual(["Name", "Email"]);
+    expect(result.table.rows).toEqual([
+      ["Jane", "jane@example.com"],
+      ["Sam", "sam@example.com"],
+      ["Ali", "ali@example.com"],
+    ]);
+    expect(result.duplicateRowsRemoved).toBe(1);
+    expect(result.columnsDeleted).toBe(1);
+    expect(result.missingColumns).toEqual(["Phone"]);
+    expect(result.missingDuplicateKeys).toEqual([]);
+  });
+
+  it("adds the source file column without affecting duplicates", () => {
+    const result = cleanMergedData([january, february], template, {
+      ...options,
+      sourceFileColumn: true,
+    });
+
+    expect(result.table.headers).toEqual(["Name", "Email", SOURCE_FILE_HEADER]);
+    expect(result.table.rows).toEqual([
+      ["Jane", "jane@example.com", "january.csv"],
+      ["Sam", "sam@example.com", "january.csv"],
+      ["Ali", "ali@example.com", "february.csv"],
+    ]);
+    expect(result.missingDuplicateKeys).toEqual([]);
+  });
+
+  it("removes empty rows despite their source file", () => {
+    const blank = (name: string) => ({
+      name,
+      table: { headers: ["Name", "Email"], rows: [["", ""]] },
+    });
+    const result = cleanMergedData(
+      [january, blank("a.csv"), blank("b.csv")],
+      template,
+      { ...withSteps("removeEmptyRows"), sourceFileColumn: true },
+    );
+
+    expect(result.table.rows.map((row) => row[2])).toEqual([
+      "january.csv",
+      "january.csv",
+    ]);
+    expect(
+      result.steps.find(({ id }) => id === "removeEmptyRows"),
+    ).toMatchObject({ rowsRemoved: 2 });
+  });
+
+  it("rejects rows under their file and row number", () => {
+    const rejected = cleanMergedData(
+      [
+        january,
+        { ...february, table: { ...february.table, rows: [["Ali", "nope"]] } },
+      ],
+      template,
+      {
+        ...DEFAULT_CLEANING_OPTIONS,
+        columnMapping: { Name: "Full Name" },
+        schema: { Email: { type: "email" } },
+      },
+    );
+
+    expect(rejected.violations).toMatchObject([{ row: 2, column: "Email" }]);
+    expect(rejected.rejects.headers).toEqual([
+      "Source Row",
+      "Name",
+      "Email",
+      SOURCE_FILE_HEADER,
+      "Reason 1",
+    ]);
+    expect(rejected.rejects.rows).toEqual([
+      [2, "Ali", "nope", "february.csv", "Email: Not a valid email"],
+    ]);
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, expect, it, vi } from "vitest";
+
+import { isSupportedFile, parseCsv, parseFile } from "@/lib/cleaner";
+
+import { loadCsvSample, loadXlsxSample, readSample } from "./fixtures";
+
+describe("parseCsv", () => {
+  it("splits the header row from the data rows", () => {
+    const table = loadCsvSample("sample-data.csv");
+
+    expect(table.headers).toEqual([
+      "Name",
+      "Email",
+      "Phone",
+      "Age",
+      "Department",
+      "Salary",
+      "Location",
+      "Start_Date",
+    ]);
+    expect(table.rows).toHaveLength(10);
+    expect(table.rows[0][0]).toBe("John Doe");
+  });
+
+  it("parses a header-only template", () => {
+    const table = loadCsvSample("sample-template.csv");
+
+    expect(table.headers).toEqual([
+      "Name",
+      "Email",
+      "Department",
+      "Start_Date",
+    ]);
+    expect(table.rows).toEqual([]);
+  });
+
+  it("reports parse progress up to 100%", () => {
+    const onProgress = vi.fn();
+
+    parseCsv(readSample("sample-data.csv").toString("utf-8"), onProgress);
+
+    expect(onProgress).toHaveBeenLastCalledWith({
+      stage: "parse",
+      percent: 100,
+    });
+    expect(onProgress.mock.calls.length).toBeGreaterThan(2);
+  });
+
+  it("returns an empty table for empty input", () => {
+    expect(parseCsv("")).toEqual({ headers: [], rows: [] });
+  });
+});
+
+describe("parseWorkbook", () => {
+  it("reads the first sheet with the same headers as the CSV sample", () => {
+    const csv = loadCsvSample("sample-data.csv");
+    const xlsx = loadXlsxSample("sample-data.xlsx");
+
+    expect(xlsx.headers).toEqual(csv.headers);
+    expect(xlsx.rows).toHaveLength(csv.rows.length);
+  });
+});
+
+describe("parseFile", () => {
+  it("parses CSV files by extension", async () => {
+    const file = new File([readSample("sample-data.csv")], "sample-data.csv");
+    const table = await parseFile(file);
+
+    expect(table.rows).toHaveLength(10);
+  });
+
+  it("rejects unsupported formats", async () => {
+    await expect(parseFile(new File(["{}"], "data.json"))).rejects.toThrow(
+      "Unsupported file format",
+    );
+  });
+});
+
+describe("isSupportedFile", () => {
+  it("accepts CSV and XLSX files by name or MIME type", () => {
+    expect(isSupportedFile({ name: "a.csv", type: "" })).toBe(true);
+    expect(isSupportedFile({ name: "a.xlsx", type: "" })).toBe(true);
+    expect(isSupportedFile({ name: "a", type: "text/csv" })).toBe(true);
+    expect(isSupportedFile({ name: "a.pdf", type: "application/pdf" })).toBe(
+      false,
+    );
+  });
+});
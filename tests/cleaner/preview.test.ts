@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+
+import { Table, previewCleaning } from "@/lib/cleaner";
+
+import { withSteps } from "./fixtures";
+
+const data: Table = {
+  headers: ["name", "Extra", "City"],
+  rows: [
+    [" ann ", "x", "Paris"],
+    ["Bob", "y", "Rome"],
+    ["ANN", "z", "Paris"],
+    ["Cy", "w", "Oslo"],
+  ],
+};
+const template: Table = { headers: ["Name", "City"], rows: [] };
+
+describe("previewCleaning", () => {
+  it("pairs each cleaned cell with its raw value", () => {
+    const preview = previewCleaning(
+      data,
+      template,
+      {
+        ...withSteps(
+          "trimWhitespace",
+          "convertToUppercase",
+          "removeDuplicates",
+        ),
+        columnMapping: { Name: "name" },
+      },
+      3,
+    );
+
+    expect(preview.headers).toEqual(["Name", "City"]);
+    expect(preview.sampleRows).toBe(3);
+    expect(preview.rowsRemoved).toBe(1);
+    expect(preview.rows).toEqual([
+      {
+        rowNumber: 2,
+        cells: ["ANN", "PARIS"],
+        original: [" ann ", "Paris"],
+        changed: [true, true],
+      },
+      {
+        rowNumber: 3,
+        cells: ["BOB", "ROME"],
+        original: ["Bob", "Rome"],
+        changed: [true, true],
+      },
+    ]);
+  });
+
+  it("marks cells the steps left alone as unchanged", () => {
+    const preview = previewCleaning(data, template, {
+      ...withSteps("trimWhitespace"),
+      columnMapping: { Name: "name" },
+    });
+
+    expect(preview.rows.map(({ changed }) => changed)).toEqual([
+      [true, false],
+      [false, false],
+      [false, false],
+      [false, false],
+    ]);
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+
+import { profileColumn, profileTable } from "@/lib/cleaner";
+
+import { loadCsvSample } from "./fixtures";
+
+describe("profileColumn", () => {
+  it("infers the type and lists values that do not fit it", () => {
+    const profile = profileColumn("Age", [
+      "31",
+      "9",
+      "",
+      "120",
+      "42",
+      "27",
+      "18",
+      "55",
+      "63",
+      "38",
+      "forty",
+      null,
+    ]);
+
+    expect(profile).toMatchObject({
+      type: "integer",
+      rowCount: 12,
+      emptyCount: 2,
+      distinctCount: 10,
+      min: "9",
+      max: "120",
+      malformedCount: 1,
+      malformedSamples: ["forty"],
+    });
+  });
+
+  it("falls back to text when no type fits most values", () => {
+    const profile = profileColumn("Department", [
+      "Engineering",
+      "engineering ",
+      "Sales",
+      "Engineering",
+    ]);
+
+    expect(profile).toMatchObject({
+      type: "string",
+      min: "engineering",
+      max: "Sales",
+      malformedCount: 0,
+    });
+    expect(profile.topValues[0]).toEqual({ value: "Engineering", count: 2 });
+    expect(profile.lengths.map(({ count }) => count)).toEqual([1, 0, 3, 0, 0]);
+  });
+
+  it("orders dates by date", () => {
+    expect(
+      profileColumn("Start", ["2022-03-01", "2021-12-31", "2022-01-15"]),
+    ).toMatchObject({ type: "date", min: "2021-12-31", max: "2022-03-01" });
+  });
+
+  it("profiles an empty column", () => {
+    expect(profileColumn("Notes", ["", null])).toMatchObject({
+      type: "string",
+      emptyCount: 2,
+      min: null,
+      max: null,
+    });
+  });
+});
+
+describe("profileTable", () => {
+  it("profiles every column", () => {
+    const data = loadCsvSample("sample-data.csv");
+    const profiles = profileTable(data);
+
+    expect(profiles.map(({ header }) => header)).toEqual(data.headers);
+    expect(
+      profiles.every(({ rowCount }) => rowCount === data.rows.length),
+    ).toBe(true);
+  });
+
+  it("only profiles the first rows", () => {
+    const data = loadCsvSample("sample-data.csv");
+
+    expect(profileTable(data, 3)[0].rowCount).toBe(3);
+  });
+});
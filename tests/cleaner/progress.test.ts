@@ -0,0 +1,39 @@
+import { describe, expect, it, vi } from "vitest";
+
+import { createStageReporter, getCleaningPercent } from "@/lib/cleaner";
+
+describe("createStageReporter", () => {
+  it("only reports when the whole percentage changes", () => {
+    const onProgress = vi.fn();
+    const report = createStageReporter("clean", 1000, onProgress);
+
+    for (let i = 1; i <= 1000; i++) report(i);
+
+    expect(onProgress).toHaveBeenCalledTimes(101);
+    expect(onProgress).toHaveBeenLastCalledWith({
+      stage: "clean",
+      percent: 100,
+    });
+  });
+
+  it("reports an empty stage as complete", () => {
+    const onProgress = vi.fn();
+
+    createStageReporter("scan", 0, onProgress)(0);
+
+    expect(onProgress).toHaveBeenCalledWith({ stage: "scan", percent: 100 });
+  });
+});
+
+describe("getCleaningPercent", () => {
+  it("spreads the cleaning stages evenly over 0-100", () => {
+    expect(getCleaningPercent({ stage: "scan", percent: 0 })).toBe(0);
+    expect(getCleaningPercent({ stage: "scan", percent: 100 })).toBe(50);
+    expect(getCleaningPercent({ stage: "clean", percent: 50 })).toBe(75);
+    expect(getCleaningPercent({ stage: "clean", percent: 100 })).toBe(100);
+  });
+
+  it("passes parse progress through unchanged", () => {
+    expect(getCleaningPercent({ stage: "parse", percent: 42 })).toBe(42);
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  DEFAULT_CLEANING_OPTIONS,
+  createRecipe,
+  decodeRecipe,
+  encodeRecipe,
+  parseRecipe,
+  serializeRecipe,
+  withDefaultSteps,
+} from "@/lib/cleaner";
+
+import { withSteps } from "./fixtures";
+
+const recipe = createRecipe(
+  {
+    ...withSteps("trimWhitespace", "removeDuplicates"),
+    columnMapping: { Department: "Dept" },
+    schema: { Name: { type: "string", required: true } },
+    missingColumnValue: "n/a",
+  },
+  ["Name", "Department", "Ünïcödé"],
+);
+
+describe("recipes", () => {
+  it("round-trip through JSON", () => {
+    expect(parseRecipe(serializeRecipe(recipe))).toEqual(recipe);
+  });
+
+  it("round-trip through a URL-safe encoding", () => {
+    const encoded = encodeRecipe(recipe);
+
+    expect(encoded).toMatch(/^[\w-]+$/);
+    expect(decodeRecipe(encoded)).toEqual(recipe);
+  });
+
+  it("fill in options added since the recipe was saved", () => {
+    const parsed = parseRecipe(
+      JSON.stringify({
+        version: 1,
+        templateHeaders: ["Name"],
+        options: { steps: [{ id: "trimWhitespace", enabled: true }] },
+      }),
+    );
+
+    expect(parsed.options).toEqual({
+      ...DEFAULT_CLEANING_OPTIONS,
+      steps: withDefaultSteps([{ id: "trimWhitespace", enabled: true }]),
+    });
+  });
+
+  it("refuse files that aren't a recipe", () => {
+    expect(() => parseRecipe("{")).toThrow("not valid JSON");
+    expect(() => parseRecipe('{"version": 1}')).toThrow(
+      "not a cleaning recipe",
+    );
+    expect(() => parseRecipe('{"version": 2, "options": {}}')).toThrow(
+      "newer version",
+    );
+    expect(() => decodeRecipe("%%%")).toThrow("damaged");
+  });
+
+  describe("with malformed options", () => {
+    const parseOptions = (options: Record<string, unknown>) =>
+      parseRecipe(JSON.stringify({ version: 1, options })).options;
+
+    it("drop schema patterns that are not valid regular expressions", () => {
+      expect(
+        parseOptions({
+          schema: {
+            Name: { type: "string", required: true, pattern: "(" },
+            Age: { type: "nonsense" },
+          },
+        }).schema,
+      ).toEqual({ Name: { type: "string", required: true } });
+    });
+
+    it("drop column rules without steps", () => {
+      expect(
+        parseOptions({
+          columnRules: {
+            Name: { characterAllowlist: "@" },
+            Email: { steps: { trimWhitespace: false, unknown: true } },
+          },
+        }).columnRules,
+      ).toEqual({ Email: { steps: { trimWhitespace: false } } });
+      expect(parseOptions({ columnRules: null }).columnRules).toEqual({});
+    });
+
+    it("fall back to the defaults for values of the wrong shape", () => {
+      const options = parseOptions({
+        duplicateKeys: "A",
+        fuzzyColumns: [1],
+        duplicateStrategy: "keepSome",
+        fuzzyThreshold: 5,
+        columnMapping: { Name: 3, Department: "Dept" },
+        steps: [null, { id: "trimWhitespace", enabled: true }],
+      });
+
+      expect(options).toEqual({
+        ...DEFAULT_CLEANING_OPTIONS,
+        columnMapping: { Department: "Dept" },
+        steps: withDefaultSteps([{ id: "trimWhitespace", enabled: true }]),
+      });
+    });
+
+    it("reject step ids and strategies that are built-in object keys", () => {
+      const options = parseOptions({
+        steps: [{ id: "toString", enabled: true }],
+        duplicateStrategy: "constructor",
+        columnRules: { Name: { steps: { toString: true } } },
+      });
+
+      expect(options.steps).toEqual(DEFAULT_CLEANING_OPTIONS.steps);
+      expect(options.duplicateStrategy).toBe("keepFirst");
+      expect(options.columnRules).toEqual({ Name: { steps: {} } });
+    });
+  });
+});
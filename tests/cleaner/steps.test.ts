@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  DEFAULT_CLEANING_OPTIONS,
+  DEFAULT_CLEANING_STEPS,
+  enableSteps,
+  isStepEnabledForColumn,
+  isStepUsed,
+  moveStep,
+  withDefaultSteps,
+} from "@/lib/cleaner";
+
+describe("moveStep", () => {
+  it("moves a step without touching the others", () => {
+    const steps = moveStep(DEFAULT_CLEANING_STEPS, 0, 2);
+
+    expect(steps.slice(0, 3).map(({ id }) => id)).toEqual([
+      "normalizeText",
+      "trimWhitespace",
+      "normalizePersian",
+    ]);
+    expect(steps).toHaveLength(DEFAULT_CLEANING_STEPS.length);
+  });
+});
+
+describe("withDefaultSteps", () => {
+  it("keeps the saved order and appends missing steps", () => {
+    const saved = [
+      { id: "removeDuplicates", enabled: true },
+      { id: "retiredStep", enabled: true },
+      { id: "trimWhitespace", enabled: true },
+    ] as typeof DEFAULT_CLEANING_STEPS;
+    const steps = withDefaultSteps(saved);
+
+    expect(steps.slice(0, 2)).toEqual([
+      { id: "removeDuplicates", enabled: true },
+      { id: "trimWhitespace", enabled: true },
+    ]);
+    expect(steps).toHaveLength(DEFAULT_CLEANING_STEPS.length);
+    expect(steps.slice(2).every(({ enabled }) => !enabled)).toBe(true);
+  });
+});
+
+describe("enableSteps", () => {
+  it("switches only the given steps", () => {
+    const steps = enableSteps(DEFAULT_CLEANING_STEPS, ["trimWhitespace"]);
+
+    expect(steps.filter(({ enabled }) => enabled)).toEqual([
+      { id: "trimWhitespace", enabled: true },
+    ]);
+  });
+});
+
+describe("isStepEnabledForColumn", () => {
+  const options = {
+    ...DEFAULT_CLEANING_OPTIONS,
+    steps: enableSteps(DEFAULT_CLEANING_STEPS, ["trimWhitespace"]),
+    columnRules: {
+      Zip: { steps: { trimWhitespace: false } },
+      Email: { steps: { convertToLowercase: true } },
+    },
+  };
+
+  it("falls back to the global setting without a column rule", () => {
+    expect(isStepEnabledForColumn(options, "trimWhitespace", "Name")).toBe(
+      true,
+    );
+    expect(isStepEnabledForColumn(options, "trimWhitespace", "Zip")).toBe(
+      false,
+    );
+    expect(isStepEnabledForColumn(options, "convertToLowercase", "Email")).toBe(
+      true,
+    );
+  });
+
+  it("counts a step as used when any column rule enables it", () => {
+    expect(isStepUsed(options, "convertToLowercase")).toBe(true);
+    expect(isStepUsed(options, "convertToUppercase")).toBe(false);
+  });
+});
@@ -0,0 +1,196 @@
+import { describe, expect, it, vi } from "vitest";
+
+import {
+  DEFAULT_CLEANING_OPTIONS,
+  MAX_STREAMED_AUDIT_ROWS,
+  cleanCsvStream,
+  cleanData,
+  parseCsv,
+  scanCsv,
+  shouldStreamFile,
+  streamCsv,
+  tableToCsv,
+} from "@/lib/cleaner";
+
+import { loadCsvSample, readSample, withSteps } from "./fixtures";
+
+const text = readSample("sample-data.csv").toString("utf-8");
+
+describe("streamCsv", () => {
+  it("yields the same rows as a one-shot parse across small chunks", async () => {
+    const headers: string[][] = [];
+    const rows: unknown[][] = [];
+
+    await streamCsv(text, {
+      onHeaders: (h) => headers.push(h),
+      onRows: (batch) => rows.push(...batch),
+      chunkSize: 64,
+    });
+
+    const table = parseCsv(text);
+
+    expect(headers).toEqual([table.headers]);
+    expect(rows).toEqual(table.rows);
+  });
+
+  it("keeps quoted fields intact when they straddle a chunk boundary", async () => {
+    const rows: unknown[][] = [];
+
+    await streamCsv('Name,Note\nJane,"line one\nline, two"\nBob,ok\n', {
+      onRows: (batch) => rows.push(...batch),
+      chunkSize: 20,
+    });
+
+    expect(rows).toEqual([
+      ["Jane", "line one\nline, two"],
+      ["Bob", "ok"],
+    ]);
+  });
+
+  it("reports parse progress up to 100%", async () => {
+    const onProgress = vi.fn();
+
+    await streamCsv(text, { onRows: () => {}, onProgress, chunkSize: 64 });
+
+    expect(onProgress).toHaveBeenLastCalledWith({
+      stage: "parse",
+      percent: 100,
+    });
+  });
+});
+
+describe("scanCsv", () => {
+  it("counts every row but keeps only the sample", async () => {
+    const { sample, rowCount } = await scanCsv(text, undefined, 3);
+
+    expect(rowCount).toBe(10);
+    expect(sample.headers).toHaveLength(8);
+    expect(sample.rows).toHaveLength(3);
+  });
+});
+
+describe("cleanCsvStream", () => {
+  const template = loadCsvSample("sample-template.csv");
+  const options = withSteps("removeDuplicates", "convertToLowercase");
+
+  it("matches the in-memory cleaner", async () => {
+    const streamed = await cleanCsvStream(
+      text,
+      template,
+      options,
+      undefined,
+      64,
+    );
+    const inMemory = cleanData(parseCsv(text), template, options);
+
+    expect(streamed.headers).toEqual(inMemory.table.headers);
+    expect(streamed.duplicateRowsRemoved).toBe(inMemory.duplicateRowsRemoved);
+    expect(streamed.totalRowsCleaned).toBe(inMemory.totalRowsCleaned);
+    expect(parseCsv(await streamed.csv.text())).toEqual(
+      parseCsv(tableToCsv(inMemory.table)),
+    );
+  });
+
+  it("removes empty columns with a separate scanning pass", async () => {
+    const csv = "Name,Email\nJane,\nBob,\n";
+    const streamed = await cleanCsvStream(
+      csv,
+      { headers: ["Name", "Email"], rows: [] },
+      withSteps("removeEmptyColumns"),
+    );
+
+    expect(streamed.headers).toEqual(["Name"]);
+    expect(streamed.emptyColumnsRemoved).toBe(1);
+    expect(parseCsv(await streamed.csv.text()).rows).toEqual([
+      ["Jane"],
+      ["Bob"],
+    ]);
+  });
+
+  it("settles ambiguous dates from rows in later chunks", async () => {
+    const csv = "Start\n03/04/2022\n25/12/2022\n";
+    const streamed = await cleanCsvStream(
+      csv,
+      { headers: ["Start"], rows: [] },
+      withSteps("standardizeDates"),
+      undefined,
+      12,
+    );
+
+    expect(parseCsv(await streamed.csv.text()).rows).toEqual([
+      ["2022-04-03"],
+      ["2022-12-25"],
+    ]);
+    expect(streamed.dateColumns[0].formats.eu).toBe(2);
+  });
+
+  it("counts source rows across chunks for rejects", async () => {
+    const csv = "Age\n1\n2\nx\n4\ny\n";
+    const streamed = await cleanCsvStream(
+      csv,
+      { headers: ["Age"], rows: [] },
+      { ...DEFAULT_CLEANING_OPTIONS, schema: { Age: { type: "integer" } } },
+      undefined,
+      6,
+    );
+
+    expect(streamed.rejects.rows.map(([row]) => row)).toEqual([4, 6]);
+    expect(parseCsv(await streamed.csv.text()).rows).toEqual([
+      ["1"],
+      ["2"],
+      ["4"],
+    ]);
+  });
+
+  it("only keeps the first of each key's rows", async () => {
+    await expect(
+      cleanCsvStream(
+        "Email\na@x.com\n",
+        { headers: ["Email"], rows: [] },
+        {
+          ...withSteps("removeDuplicates"),
+          duplicateKeys: ["Email"],
+          duplicateStrategy: "keepLast",
+        },
+      ),
+    ).rejects.toThrow("keep the first");
+  });
+
+  it("caps the rejected rows it keeps but counts every one", async () => {
+    const csv = `Age\n${Array.from(
+      { length: MAX_STREAMED_AUDIT_ROWS + 5 },
+      () => "x",
+    ).join("\n")}\n`;
+    const streamed = await cleanCsvStream(
+      csv,
+      { headers: ["Age"], rows: [] },
+      { ...DEFAULT_CLEANING_OPTIONS, schema: { Age: { type: "integer" } } },
+    );
+
+    expect(streamed.rejects.rows).toHaveLength(MAX_STREAMED_AUDIT_ROWS);
+    expect(streamed.rejectedRows).toBe(MAX_STREAMED_AUDIT_ROWS + 5);
+  });
+
+  it("reports progress as the stream stage", async () => {
+    const onProgress = vi.fn();
+
+    await cleanCsvStream(text, template, options, onProgress);
+
+    expect(onProgress).toHaveBeenLastCalledWith({
+      stage: "stream",
+      percent: 100,
+    });
+  });
+});
+
+describe("shouldStreamFile", () => {
+  it("only streams large CSV files", () => {
+    expect(shouldStreamFile({ name: "a.csv", size: 200 * 1024 * 1024 })).toBe(
+      true,
+    );
+    expect(shouldStreamFile({ name: "a.csv", size: 1024 })).toBe(false);
+    expect(shouldStreamFile({ name: "a.xlsx", size: 200 * 1024 * 1024 })).toBe(
+      false,
+    );
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  createCharacterFilter,
+  normalizePersian,
+  normalizeText,
+  toDigitScript,
+} from "@/lib/cleaner";
+
+describe("normalizeText", () => {
+  it("composes decomposed accents under NFC", () => {
+    expect(normalizeText("Jose\u0301", "NFC")).toBe("Jos\u00e9");
+  });
+
+  it("folds compatibility characters under NFKC only", () => {
+    expect(normalizeText("\uff21\ufb01", "NFKC")).toBe("Afi");
+    expect(normalizeText("\uff21\ufb01", "NFC")).toBe("\uff21\ufb01");
+  });
+
+  it("straightens smart quotes", () => {
+    expect(normalizeText("\u201cit\u2019s\u201d", "NFC")).toBe(`"it's"`);
+  });
+
+  it("turns non-breaking spaces into spaces and collapses runs", () => {
+    expect(normalizeText("New\u00a0\u00a0York \t City", "NFC")).toBe(
+      "New York City",
+    );
+  });
+});
+
+describe("createCharacterFilter", () => {
+  it("keeps letters and digits in any script", () => {
+    const filter = createCharacterFilter(["letters", "digits"]);
+
+    expect(filter("Jos\u00e9 O'Neil #42!")).toBe("Jos\u00e9 ONeil 42");
+    expect(filter("\u0628\u0631\u062f\u06cc\u0627 \u06f1\u06f2")).toBe(
+      "\u0628\u0631\u062f\u06cc\u0627 \u06f1\u06f2",
+    );
+    expect(filter("\u6771\u4eac\u3001\u65e5\u672c")).toBe(
+      "\u6771\u4eac\u65e5\u672c",
+    );
+    expect(filter("Jos\u0065\u0301")).toBe("Jos\u0065\u0301");
+  });
+
+  it("keeps punctuation and emoji only when asked", () => {
+    const text = "Hi, there! \ud83d\udc4d\ud83c\udffd $5";
+
+    expect(createCharacterFilter(["letters"])(text)).toBe("Hi there  ");
+    expect(createCharacterFilter(["letters", "punctuation"])(text)).toBe(
+      "Hi, there!  ",
+    );
+    expect(createCharacterFilter(["letters", "emoji"])(text)).toBe(
+      "Hi there \ud83d\udc4d\ud83c\udffd ",
+    );
+  });
+
+  it("keeps allowlisted characters, including class syntax", () => {
+    const filter = createCharacterFilter(["digits"], "+-]^\\");
+
+    expect(filter("+1 (555) 123-4567 ]^\\")).toBe("+1 555 123-4567 ]^\\");
+  });
+});
+
+describe("toDigitScript", () => {
+  it("rewrites digits from any script", () => {
+    const mixed = "1\u06f2\u0663";
+
+    expect(toDigitScript(mixed, "latin")).toBe("123");
+    expect(toDigitScript(mixed, "persian")).toBe("\u06f1\u06f2\u06f3");
+    expect(toDigitScript(mixed, "arabic")).toBe("\u0661\u0662\u0663");
+  });
+});
+
+describe("normalizePersian", () => {
+  it("uses the Persian yeh and kaf", () => {
+    expect(
+      normalizePersian(
+        "\u0639\u0644\u064a \u0643\u0631\u064a\u0645\u0649",
+        "latin",
+      ),
+    ).toBe("\u0639\u0644\u06cc \u06a9\u0631\u06cc\u0645\u06cc");
+  });
+
+  it("keeps non-joiners between letters and drops stray ones", () => {
+    const word = "\u0645\u06cc\u200c\u0631\u0648\u0645";
+
+    expect(normalizePersian(word, "latin")).toBe(word);
+    expect(
+      normalizePersian(
+        `\u200c\u0645\u06cc\u200c\u200c\u0631\u0648\u0645\u200c \u06f1\u200c`,
+        "latin",
+      ),
+    ).toBe(`${word} 1`);
+  });
+});
@@ -0,0 +1,218 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  DEFAULT_CLEANING_OPTIONS,
+  cleanData,
+  parseColumnAnnotation,
+  parseSchemaJson,
+  readTemplateSchema,
+  validateValue,
+} from "@/lib/cleaner";
+
+describe("validateValue", () => {
+  it("checks each column type", () => {
+    expect(validateValue("42", { type: "integer" })).toBeNull();
+    expect(validateValue("4.2", { type: "integer" })?.rule).toBe("type");
+    expect(validateValue("-1.5e3", { type: "decimal" })).toBeNull();
+    expect(validateValue("2024-02-30", { type: "date" })?.rule).toBe("type");
+    expect(validateValue("03/04/2022", { type: "date" })).toBeNull();
+    expect(validateValue("ana@example", { type: "email" })?.rule).toBe("type");
+    expect(validateValue("+1 (555) 010-2030", { type: "phone" })).toBeNull();
+    expect(validateValue("12-34", { type: "phone" })?.rule).toBe("type");
+    expect(
+      validateValue("Paused", { type: "enum", values: ["Active"] })?.message,
+    ).toBe("Not one of: Active");
+  });
+
+  it("only requires non-empty values of required columns", () => {
+    expect(validateValue(" ", { type: "integer" })).toBeNull();
+    expect(validateValue(" ", { type: "integer", required: true })?.rule).toBe(
+      "required",
+    );
+  });
+
+  it("checks patterns against the whole value, then bounds and length", () => {
+    expect(
+      validateValue("AB12x", { type: "string", pattern: "[A-Z]{2}\\d+" })?.rule,
+    ).toBe("pattern");
+    expect(validateValue("-1", { type: "integer", min: 0 })?.rule).toBe("min");
+    expect(validateValue("121", { type: "integer", max: 120 })?.rule).toBe(
+      "max",
+    );
+    expect(validateValue("abcd", { type: "string", maxLength: 3 })?.rule).toBe(
+      "maxLength",
+    );
+  });
+});
+
+describe("parseColumnAnnotation", () => {
+  it("reads types, flags and settings", () => {
+    expect(parseColumnAnnotation("integer; required; min=0; max=120")).toEqual({
+      type: "integer",
+      required: true,
+      min: 0,
+      max: 120,
+    });
+    expect(parseColumnAnnotation("enum=Active | Inactive")).toEqual({
+      type: "enum",
+      values: ["Active", "Inactive"],
+    });
+    expect(parseColumnAnnotation("maxLength=10; pattern=[a-z;]+")).toEqual({
+      type: "string",
+      maxLength: 10,
+      pattern: "[a-z;]+",
+    });
+  });
+
+  it("rejects unknown rules", () => {
+    expect(() => parseColumnAnnotation("integer; unique")).toThrow(
+      'Unknown rule "unique"',
+    );
+  });
+});
+
+describe("readTemplateSchema", () => {
+  it("reads an annotated second row", () => {
+    expect(
+      readTemplateSchema({
+        headers: ["Name", "Age"],
+        rows: [["required", "integer; min=0"]],
+      }),
+    ).toEqual({
+      Name: { type: "string", required: true },
+      Age: { type: "integer", min: 0 },
+    });
+  });
+
+  it("ignores a second row of example data", () => {
+    expect(
+      readTemplateSchema({ headers: ["Name", "Age"], rows: [["Ana", 32]] }),
+    ).toBeNull();
+  });
+});
+
+describe("parseSchemaJson", () => {
+  it("maps JSON Schema properties onto column rules", () => {
+    const schema = parseSchemaJson(
+      JSON.stringify({
+        type: "object",
+        properties: {
+          Age: { type: "integer", minimum: 0 },
+          Score: { type: "number", maximum: 10 },
+          Email: { type: "string", format: "email" },
+          Status: { enum: ["Active", "Inactive"] },
+          Code: { type: "string", pattern: "^[A-Z]+$", maxLength: 5 },
+        },
+        required: ["Email"],
+      }),
+    );
+
+    expect(schema).toEqual({
+      Age: { type: "integer", min: 0 },
+      Score: { type: "decimal", max: 10 },
+      Email: { type: "email", required: true },
+      Status: { type: "enum", values: ["Active", "Inactive"] },
+      Code: { type: "string", pattern: "^[A-Z]+$", maxLength: 5 },
+    });
+  });
+
+  it("explains what is wrong with a schema", () => {
+    expect(() => parseSchemaJson("{")).toThrow("not valid JSON");
+    expect(() => parseSchemaJson("{}")).toThrow('"properties"');
+    expect(() =>
+      parseSchemaJson('{"properties": {"Code": {"pattern": "("}}}'),
+    ).toThrow("not a valid regular expression");
+  });
+
+  it("rejects types and formats that are built-in object keys", () => {
+    expect(() =>
+      parseSchemaJson('{"properties": {"Name": {"type": "toString"}}}'),
+    ).toThrow("unsupported type");
+    expect(
+      parseSchemaJson(
+        '{"properties": {"Name": {"type": "string", "format": "constructor"}}}',
+      ),
+    ).toEqual({ Name: { type: "string" } });
+  });
+});
+
+describe("cleanData validation", () => {
+  it("lists violations with their data file row and column", () => {
+    const result = cleanData(
+      {
+        headers: ["Age", "Name"],
+        rows: [
+          ["30", "Ana"],
+          ["x", ""],
+        ],
+      },
+      { headers: ["Name", "Age"], rows: [] },
+      {
+        ...DEFAULT_CLEANING_OPTIONS,
+        schema: {
+          Name: { type: "string", required: true },
+          Age: { type: "integer" },
+        },
+      },
+    );
+
+    expect(result.violationCount).toBe(2);
+    expect(result.violations).toEqual([
+      {
+        row: 3,
+        column: "Name",
+        columnNumber: 1,
+        value: "",
+        rule: "required",
+        message: "Value is required",
+      },
+      {
+        row: 3,
+        column: "Age",
+        columnNumber: 2,
+        value: "x",
+        rule: "type",
+        message: "Not a valid integer",
+      },
+    ]);
+  });
+
+  it("moves rows that break the schema to the rejects", () => {
+    const result = cleanData(
+      {
+        headers: ["Age", "Name", "Notes"],
+        rows: [
+          ["x", "", "first"],
+          ["30", "Ana", "second"],
+          ["-1", "Bo", "third"],
+        ],
+      },
+      { headers: ["Name", "Age"], rows: [] },
+      {
+        ...DEFAULT_CLEANING_OPTIONS,
+        schema: {
+          Name: { type: "string", required: true },
+          Age: { type: "integer", min: 0 },
+        },
+      },
+    );
+
+    expect(result.table.rows).toEqual([["Ana", "30"]]);
+    expect(result.totalRowsCleaned).toBe(1);
+    expect(result.rejectedRows).toBe(2);
+    expect(result.rejects).toEqual({
+      headers: ["Source Row", "Age", "Name", "Notes", "Reason 1", "Reason 2"],
+      rows: [
+        [
+          2,
+          "x",
+          "",
+          "first",
+          "Name: Value is required",
+          "Age: Not a valid integer",
+        ],
+        [4, "-1", "Bo", "third", "Age: Less than 0", ""],
+      ],
+    });
+  });
+});
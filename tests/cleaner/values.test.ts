@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  countValues,
+  findValueClusters,
+  fingerprint,
+  mapValue,
+  mergeValues,
+  ngramFingerprint,
+} from "@/lib/cleaner";
+
+describe("countValues", () => {
+  it("counts distinct values, most common first, skipping empty cells", () => {
+    expect(countValues(["b", "a", "b", "", null, " ", 1])).toEqual([
+      { value: "b", count: 2 },
+      { value: "1", count: 1 },
+      { value: "a", count: 1 },
+    ]);
+  });
+});
+
+describe("fingerprint", () => {
+  it("ignores case, spacing, punctuation, accents and word order", () => {
+    expect(fingerprint(" Engineering. ")).toBe("engineering");
+    expect(fingerprint("Café, Paris")).toBe(fingerprint("paris cafe"));
+  });
+});
+
+describe("ngramFingerprint", () => {
+  it("ignores spacing between words", () => {
+    expect(ngramFingerprint("Human Resources")).toBe(
+      ngramFingerprint("HumanResources"),
+    );
+    expect(ngramFingerprint("ab")).toBe("ab");
+  });
+});
+
+describe("findValueClusters", () => {
+  const counts = countValues([
+    "Engineering",
+    "Engineering",
+    "engineering ",
+    "ENGINEERING.",
+    "Human Resources",
+    "HumanResources",
+    "Sales",
+  ]);
+
+  it("clusters values with the same fingerprint", () => {
+    expect(findValueClusters(counts, "fingerprint")).toEqual([
+      {
+        values: [
+          { value: "Engineering", count: 2 },
+          { value: "engineering ", count: 1 },
+          { value: "ENGINEERING.", count: 1 },
+        ],
+        canonical: "Engineering",
+      },
+    ]);
+  });
+
+  it("clusters values with the same n-grams", () => {
+    expect(
+      findValueClusters(counts, "ngram").map(({ canonical }) => canonical),
+    ).toEqual(["Engineering", "Human Resources"]);
+  });
+});
+
+describe("mergeValues", () => {
+  it("maps the values to the canonical one, following earlier merges", () => {
+    const valueMap = mergeValues({}, ["Eng.", "Engg"], "Eng");
+
+    expect(valueMap).toEqual({ "Eng.": "Eng", Engg: "Eng" });
+    expect(
+      mergeValues(valueMap, ["Eng", "engineering"], "Engineering"),
+    ).toEqual({
+      "Eng.": "Engineering",
+      Engg: "Engineering",
+      Eng: "Engineering",
+      engineering: "Engineering",
+    });
+  });
+});
+
+describe("mapValue", () => {
+  it("replaces only mapped values", () => {
+    const valueMap = { Engg: "Engineering" };
+
+    expect(mapValue("Engg", valueMap)).toBe("Engineering");
+    expect(mapValue("constructor", valueMap)).toBe("constructor");
+    expect(mapValue(null, valueMap)).toBeNull();
+  });
+});
@@ -0,0 +1,90 @@
+import * as XLSX from "xlsx";
+import { describe, expect, it } from "vitest";
+
+import {
+  MAX_ZIP_ENTRIES,
+  crc32,
+  createZip,
+  zipBlobs,
+  zipFiles,
+} from "@/lib/cleaner";
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+const readZip = (zip: Uint8Array) => {
+  const archive = XLSX.CFB.read(zip, { type: "array" });
+
+  return (name: string) =>
+    new TextDecoder().decode(XLSX.CFB.find(archive, name).content);
+};
+
+describe("crc32", () => {
+  it("matches the standard checksum", () => {
+    expect(crc32(encode("123456789"))).toBe(0xcbf43926);
+  });
+
+  it("continues from the checksum of the bytes before", () => {
+    expect(crc32(encode("6789"), crc32(encode("12345")))).toBe(0xcbf43926);
+  });
+});
+
+describe("createZip", () => {
+  it("writes entries an unzip tool can read back", () => {
+    const read = readZip(
+      createZip([
+        { name: "first.csv", data: encode('"a","b"') },
+        { name: "second.csv", data: encode("۱,۲") },
+      ]),
+    );
+
+    expect(read("first.csv")).toBe('"a","b"');
+    expect(read("second.csv")).toBe("۱,۲");
+  });
+
+  it("refuses more entries than a ZIP without ZIP64 holds", () => {
+    const entries = Array.from({ length: MAX_ZIP_ENTRIES + 1 }, (_, i) => ({
+      name: `${i}.csv`,
+      data: new Uint8Array(0),
+    }));
+
+    expect(() => createZip(entries)).toThrow("at most");
+  });
+});
+
+describe("zipBlobs", () => {
+  it("packs blobs into a zip blob", async () => {
+    const zip = await zipBlobs([
+      { name: "out.csv", blob: new Blob(["x,y"], { type: "text/csv" }) },
+    ]);
+
+    expect(zip.type).toBe("application/zip");
+    expect(readZip(new Uint8Array(await zip.arrayBuffer()))("out.csv")).toBe(
+      "x,y",
+    );
+  });
+
+  it("refuses archives over 4 GB before reading any blob", async () => {
+    const huge = { size: 2 ** 32 } as Blob;
+
+    await expect(zipBlobs([{ name: "big.csv", blob: huge }])).rejects.toThrow(
+      "4 GB",
+    );
+  });
+});
+
+describe("zipFiles", () => {
+  it("writes tables out in their format", async () => {
+    const zip = await zipFiles([
+      {
+        name: "out.csv",
+        table: { headers: ["a"], rows: [["1"]] },
+        format: "csv",
+      },
+      { name: "notes.txt", blob: new Blob(["hi"]) },
+    ]);
+    const read = readZip(new Uint8Array(await zip.arrayBuffer()));
+
+    expect(read("out.csv")).toBe('"a"\r\n"1"');
+    expect(read("notes.txt")).toBe("hi");
+  });
+});
@@ -0,0 +1,111 @@
+import "fake-indexeddb/auto";
+import { beforeEach, describe, expect, it } from "vitest";
+
+import {
+  DEFAULT_CLEANING_OPTIONS,
+  enableSteps,
+  isStepEnabled,
+} from "@/lib/cleaner";
+import {
+  deleteSessionFile,
+  discardSession,
+  SESSION_VERSION,
+  loadSession,
+  saveSessionBatch,
+  saveSessionFile,
+  saveSessionResult,
+  saveSessionState,
+} from "@/lib/storage";
+
+const table = { headers: ["Name"], rows: [["Jane"]] };
+const meta = { id: "a", name: "data.csv", size: 10, rowCount: 1 };
+
+const saveState = () =>
+  saveSessionState({
+    currentStep: 2,
+    cleaningOptions: {
+      ...DEFAULT_CLEANING_OPTIONS,
+      steps: enableSteps(DEFAULT_CLEANING_OPTIONS.steps, ["trimWhitespace"]),
+    },
+    fileMode: "single",
+    files: [{ ...meta, isDataFile: true }],
+    savedAt: 1,
+  });
+
+describe("session storage", () => {
+  beforeEach(async () => {
+    await discardSession();
+  });
+
+  it("returns null when nothing is saved", async () => {
+    expect(await loadSession()).toBeNull();
+  });
+
+  it("restores state, file contents and the cleaning result", async () => {
+    const file = new File(["Name\nJane"], "data.csv");
+    const result = {
+      table,
+      totalRowsCleaned: 1,
+      columnsDeleted: 0,
+      duplicateRowsRemoved: 0,
+      emptyColumnsRemoved: 0,
+      missingColumns: [],
+      missingDuplicateKeys: [],
+      steps: [],
+      dateColumns: [],
+      violations: [],
+      violationCount: 0,
+      rejectedRows: 0,
+      rejects: { headers: [], rows: [] },
+      duplicates: { headers: [], rows: [] },
+      rowNumbers: [2],
+      fuzzyClusters: [],
+    };
+
+    await saveSessionFile("a", { file, table });
+    await saveState();
+    await saveSessionResult(result);
+
+    const session = await loadSession();
+
+    expect(session?.state).toMatchObject({
+      version: SESSION_VERSION,
+      currentStep: 2,
+      files: [{ ...meta, isDataFile: true }],
+    });
+    expect(
+      isStepEnabled(session!.state.cleaningOptions, "trimWhitespace"),
+    ).toBe(true);
+    expect(session?.contents.get("a")?.table).toEqual(table);
+    expect(await session?.contents.get("a")?.file.text()).toBe("Name\nJane");
+    expect(session?.cleaningResult).toEqual(result);
+  });
+
+  it("skips files whose contents were deleted", async () => {
+    await saveSessionFile("a", { file: new File([""], "data.csv"), table });
+    await saveState();
+    await deleteSessionFile("a");
+
+    expect((await loadSession())?.contents.size).toBe(0);
+  });
+
+  it("clears a saved result", async () => {
+    await saveState();
+    await saveSessionResult(null);
+
+    expect((await loadSession())?.cleaningResult).toBeNull();
+  });
+
+  it("restores and clears batch results", async () => {
+    const batch = [
+      { fileId: "a", fileName: "data.csv", result: null, error: "Bad file" },
+    ];
+
+    await saveState();
+    await saveSessionBatch(batch);
+    expect((await loadSession())?.batchResults).toEqual(batch);
+
+    await saveSessionBatch([]);
+    expect((await loadSession())?.batchResults).toEqual([]);
+  });
+});
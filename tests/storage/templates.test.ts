@@ -0,0 +1,105 @@
+import "fake-indexeddb/auto";
+import { beforeEach, describe, expect, it } from "vitest";
+
+import {
+  SavedTemplate,
+  deleteTemplate,
+  exportTemplateLibrary,
+  importTemplates,
+  listTemplates,
+  parseTemplateLibrary,
+  saveTemplate,
+} from "@/lib/storage";
+
+const template = (name: string): SavedTemplate => ({
+  name,
+  headers: ["Name", "Department"],
+  columnMapping: { Department: "Dept" },
+  columnRules: { Name: { steps: { convertToUppercase: true } } },
+  schema: { Name: { type: "string", required: true } },
+  savedAt: 1,
+});
+
+describe("template library", () => {
+  beforeEach(async () => {
+    await Promise.all(
+      (await listTemplates()).map(({ name }) => deleteTemplate(name)),
+    );
+  });
+
+  it("saves templates by name, sorted, replacing same-named ones", async () => {
+    await saveTemplate(template("Staff"));
+    await saveTemplate(template("Customers"));
+    await saveTemplate({ ...template("Staff"), headers: ["Name"] });
+
+    const templates = await listTemplates();
+
+    expect(templates.map(({ name }) => name)).toEqual(["Customers", "Staff"]);
+    expect(templates[1].headers).toEqual(["Name"]);
+  });
+
+  it("round-trips the library through its JSON export", async () => {
+    const json = exportTemplateLibrary([template("Staff")]);
+
+    await importTemplates(parseTemplateLibrary(json));
+
+    expect(await listTemplates()).toEqual([template("Staff")]);
+  });
+});
+
+describe("parseTemplateLibrary", () => {
+  it("fills in what older or hand-written exports leave out", () => {
+    const [parsed] = parseTemplateLibrary(
+      JSON.stringify({
+        version: 1,
+        templates: [{ name: "Staff", headers: ["Name"], savedAt: 5 }],
+      }),
+    );
+
+    expect(parsed).toEqual({
+      name: "Staff",
+      headers: ["Name"],
+      columnMapping: {},
+      columnRules: {},
+      schema: {},
+      savedAt: 5,
+    });
+  });
+
+  it("drops mappings and rules of the wrong shape", () => {
+    const [parsed] = parseTemplateLibrary(
+      JSON.stringify({
+        version: 1,
+        templates: [
+          {
+            name: "Staff",
+            headers: ["Name"],
+            columnMapping: { Name: 1 },
+            columnRules: { Name: { characterAllowlist: "@" } },
+            schema: { Name: { type: "string", pattern: "(" } },
+          },
+        ],
+      }),
+    );
+
+    expect(parsed).toMatchObject({
+      columnMapping: {},
+      columnRules: {},
+      schema: { Name: { type: "string" } },
+    });
+  });
+
+  it("rejects files that aren't a library export", () => {
+    expect(() => parseTemplateLibrary("[")).toThrow("not valid JSON");
+    expect(() => parseTemplateLibrary('{"version": 1}')).toThrow('"templates"');
+    expect(() =>
+      parseTemplateLibrary('{"version": 99, "templates": []}'),
+    ).toThrow("newer version");
+    expect(() => parseTemplateLibrary('{"templates": []}')).toThrow(
+      "no format version",
+    );
+    expect(() =>
+      parseTemplateLibrary('{"version": 1, "templates": [{"name": "x"}]}'),
+    ).toThrow("name and a list of headers");
+  });
+});